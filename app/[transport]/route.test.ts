@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+const OWNER_KEY = "owner-test-key";
+const OTHER_KEY = "other-test-key";
+
+const hash = (key: string) => createHash("sha256").update(key).digest("hex");
+
+let POST: (request: Request) => Promise<Response>;
+
+beforeAll(async () => {
+  // config/env.ts reads MCP_API_KEYS once, so import the app only after this
+  vi.stubEnv(
+    "MCP_RATE_LIMITS",
+    JSON.stringify({ "get-posts": { limit: 1, windowSeconds: 60 } })
+  );
+  vi.stubEnv(
+    "MCP_API_KEYS",
+    JSON.stringify([
+      {
+        name: "owner",
+        scopes: ["read:public", "write:content"],
+        hash: hash(OWNER_KEY),
+      },
+      { name: "other", scopes: ["read:public"], hash: hash(OTHER_KEY) },
+    ])
+  );
+  ({ POST } = await import("@/app/[transport]/route"));
+
+  const { trackSessionOwner, withSessionOwner } =
+    await import("@/app/utils/session-owners");
+  withSessionOwner(hash(OWNER_KEY), () =>
+    trackSessionOwner({
+      type: "SESSION_STARTED",
+      transport: "SSE",
+      sessionId: "owned-session",
+    })
+  );
+});
+
+const postMessage = (sessionId: string, key?: string) =>
+  POST(
+    new Request(`http://localhost/message?sessionId=${sessionId}`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(key && { authorization: `Bearer ${key}` }),
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "create-meeting", arguments: {} },
+      }),
+    })
+  );
+
+describe("SSE messages", () => {
+  it("rejects messages from another key with 403", async () => {
+    expect((await postMessage("owned-session", OTHER_KEY)).status).toBe(403);
+  });
+
+  it("rejects anonymous messages to a keyed session with 403", async () => {
+    expect((await postMessage("owned-session")).status).toBe(403);
+  });
+
+  it("rejects messages to sessions no one opened with 403", async () => {
+    expect((await postMessage("made-up-session", OWNER_KEY)).status).toBe(403);
+  });
+});
+
+describe("rate limits", () => {
+  it("answers every request in an over-limit batch with the error", async () => {
+    const call = (id: number) => ({
+      jsonrpc: "2.0",
+      id,
+      method: "tools/call",
+      params: { name: "get-posts", arguments: {} },
+    });
+    const response = await POST(
+      new Request("http://localhost/mcp", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+          authorization: `Bearer ${OWNER_KEY}`,
+        },
+        // The notification has no id, so it gets no error
+        body: JSON.stringify([
+          call(1),
+          { jsonrpc: "2.0", method: "notifications/initialized" },
+          call(2),
+        ]),
+      })
+    );
+
+    expect(response.headers.get("retry-after")).toBe("60");
+    const errors = await response.json();
+    expect(errors.map((error: { id: number }) => error.id)).toEqual([1, 2]);
+    expect(errors[0].error).toMatchObject({
+      code: -32029,
+      data: { retryAfter: 60, limit: 1 },
+    });
+  });
+});
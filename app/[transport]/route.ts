@@ -1,786 +1,1961 @@
+import { randomUUID } from "crypto";
 import { createMcpHandler } from "@vercel/mcp-adapter";
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
   getAllPosts,
   getPostBySlug,
   getAllMeetings,
-  getUpcomingMeetings,
+  getMeetingById,
+  getMeetingsInWindow,
   getCurrentEboardMembers,
   getPastEboardMembers,
+  getEboardMemberById,
   getAllHackathons,
   getHackathonsByStatus,
   getHackathonBySlug,
   getAllLandingPageGraphics,
   getLandingPageGraphicByTitle,
+  getLandingPageGraphicById,
   getParallaxBanners,
+  getImageAssetById,
+  getParallaxBannerById,
+  getLocales,
+  checkLocale,
+  type ReadOptions,
   type BlogPost,
-  type Meeting,
   type EboardMember,
   type Hackathon,
   type LandingPageGraphic,
   type ParallaxBanner,
 } from "@/app/utils/contentful";
+import {
+  buildHackathonAnnouncementPrompt,
+  buildMeetingRecapPrompt,
+  buildWeeklyNewsletterPrompt,
+} from "@/app/utils/prompts";
+import { trackServer } from "@/app/utils/live-updates";
+import { paginate, paginationParams } from "@/app/utils/pagination";
+import { localeParams } from "@/app/utils/locales";
+import { previewParams } from "@/app/utils/preview";
+import { imageParams, imageTransformParams } from "@/app/utils/images";
+import { responseParams } from "@/app/utils/response-format";
+import {
+  imageBlocks,
+  imageLoader,
+  MAX_IMAGES_PER_RESPONSE,
+} from "@/app/utils/image-data";
+import { SEARCHABLE_CONTENT_TYPES, searchContent } from "@/app/utils/search";
+import { getEboardHistory } from "@/app/utils/eboard-history";
+import { getActivityReport, lastUpdated } from "@/app/utils/activity";
+import {
+  advertiseOutputSchemas,
+  pageOutput,
+  serializeBanner,
+  serializeBlogPost,
+  serializeBlogPostContent,
+  serializeEboardMember,
+  serializeGraphic,
+  serializeHackathon,
+  serializeMeeting,
+  toolOutput,
+} from "@/app/utils/tool-output";
+import {
+  CALENDAR_EVENT_TYPES,
+  getCalendarEvents,
+  toICalendar,
+} from "@/app/utils/calendar";
+import {
+  addParallaxBanner,
+  createDraftBlogPost,
+  createMeeting,
+  updateMeetingResources,
+} from "@/app/utils/authoring";
+import {
+  RELATIVE_RANGES,
+  resolveDateWindow,
+  startOfToday,
+} from "@/app/utils/dates";
+import {
+  ANONYMOUS,
+  authenticate,
+  restrictServer,
+  type ApiKey,
+  type Scope,
+} from "@/app/utils/auth";
+import { consumeRateLimit, rateLimitClient } from "@/app/utils/rate-limit";
+import {
+  ownsSession,
+  trackSessionOwner,
+  withSessionOwner,
+} from "@/app/utils/session-owners";
+import { instrumentServer } from "@/app/utils/instrumentation";
+import { activeSessions, rateLimitRejections } from "@/app/utils/metrics";
+import { Logger, sessionLogId, withLogContext } from "@/app/utils/logger";
 import { env } from "@/config/env";
 
-const handler = createMcpHandler(
-  server => {
-    // RESOURCES - Expose Contentful content type schemas
-    server.resource(
-      "contentful-schema",
-      "contentful://schema/content-types",
-      async uri => ({
+const logger = new Logger("MCP:Route");
+
+const PREVIEW_FORBIDDEN =
+  "Previewing drafts requires an API key with the read:drafts scope";
+
+/**
+ * Registers every resource, prompt and tool on `server`. `scopes` are those
+ * of the keys it serves, for checks finer than whole registrations.
+ */
+function registerContent(server: McpServer, scopes: readonly Scope[]) {
+  // Receive resource change notifications from the Contentful webhook
+  trackServer(server);
+
+  const canPreview = scopes.includes("read:drafts");
+
+  /** Checks a tool's locale and preview arguments before they're used */
+  async function readOptions(
+    locale: string | undefined,
+    preview: boolean | undefined
+  ): Promise<ReadOptions> {
+    if (preview && !canPreview) throw new Error(PREVIEW_FORBIDDEN);
+    await checkLocale(locale);
+    return { locale, preview };
+  }
+
+  /**
+   * Entry URIs take `?preview=true`. The template variable captures the
+   * query string along with the ID, so it's cut off here.
+   */
+  function entryRequest(uri: URL, variable: string | string[]) {
+    const preview = uri.searchParams.get("preview") === "true";
+    if (preview && !canPreview) {
+      throw new McpError(ErrorCode.InvalidRequest, PREVIEW_FORBIDDEN);
+    }
+    return { key: String(variable).split("?")[0], options: { preview } };
+  }
+
+  // RESOURCES - Expose Contentful content type schemas
+  server.resource(
+    "contentful-schema",
+    "contentful://schema/content-types",
+    async uri => ({
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify(
+            {
+              contentTypes: [
+                {
+                  id: "blogPost",
+                  name: "Blog Post",
+                  description:
+                    "Blog posts with title, content, author, and publish date",
+                  fields: [
+                    "title",
+                    "slug",
+                    "content",
+                    "excerpt",
+                    "author",
+                    "publishDate",
+                    "coverImage",
+                  ],
+                },
+                {
+                  id: "meeting",
+                  name: "Meeting",
+                  description:
+                    "Meeting records with date, description, location, and resources",
+                  fields: [
+                    "title",
+                    "date",
+                    "description",
+                    "image",
+                    "meetingLocation",
+                    "slides",
+                    "slidesUrl",
+                    "recording",
+                    "resourcesUrl",
+                  ],
+                },
+                {
+                  id: "eboardMember",
+                  name: "Eboard Member",
+                  description:
+                    "Executive board members with position and contact info",
+                  fields: [
+                    "name",
+                    "position",
+                    "description",
+                    "linkedin",
+                    "github",
+                    "year",
+                    "image",
+                    "memberType",
+                  ],
+                },
+                {
+                  id: "hackathon",
+                  name: "Hackathon",
+                  description:
+                    "Hackathon events with dates, status, and registration info",
+                  fields: [
+                    "title",
+                    "slug",
+                    "description",
+                    "startDate",
+                    "endDate",
+                    "status",
+                    "registrationLink",
+                    "details",
+                    "image",
+                  ],
+                },
+                {
+                  id: "landingPageGraphics",
+                  name: "Landing Page Graphics",
+                  description: "Graphics and images for landing page displays",
+                  fields: ["title", "description", "image", "graphic"],
+                },
+                {
+                  id: "parallaxBanner",
+                  name: "Parallax Banner",
+                  description: "Banner images with parallax effects",
+                  fields: ["title", "image", "link"],
+                },
+              ],
+            },
+            null,
+            2
+          ),
+          mimeType: "application/json",
+        },
+      ],
+    })
+  );
+
+  server.resource(
+    "contentful-stats",
+    "contentful://stats/overview",
+    async uri => {
+      try {
+        const [
+          posts,
+          meetings,
+          currentEboard,
+          pastEboard,
+          hackathons,
+          graphics,
+          banners,
+        ] = await Promise.all([
+          getAllPosts(),
+          getAllMeetings(),
+          getCurrentEboardMembers(),
+          getPastEboardMembers(),
+          getAllHackathons(),
+          getAllLandingPageGraphics(),
+          getParallaxBanners(),
+        ]);
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              text: JSON.stringify(
+                {
+                  overview: "Contentful CMS Statistics",
+                  counts: {
+                    blogPosts: posts.length,
+                    meetings: meetings.length,
+                    currentEboardMembers: currentEboard.length,
+                    pastEboardMembers: pastEboard.length,
+                    hackathons: hackathons.length,
+                    landingPageGraphics: graphics.length,
+                    parallaxBanners: banners.length,
+                  },
+                  lastUpdated: lastUpdated([
+                    ...posts,
+                    ...meetings,
+                    ...currentEboard,
+                    ...pastEboard,
+                    ...hackathons,
+                    ...graphics,
+                    ...banners,
+                  ]),
+                },
+                null,
+                2
+              ),
+              mimeType: "application/json",
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              text: `Error fetching Contentful statistics: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.resource(
+    "contentful-calendar",
+    "contentful://calendar/events.ics",
+    { mimeType: "text/calendar" },
+    async uri => ({
+      contents: [
+        {
+          uri: uri.href,
+          text: toICalendar(await getCalendarEvents()),
+          mimeType: "text/calendar",
+        },
+      ],
+    })
+  );
+
+  server.resource(
+    "contentful-activity",
+    "contentful://stats/activity",
+    async uri => ({
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify(await getActivityReport(), null, 2),
+          mimeType: "application/json",
+        },
+      ],
+    })
+  );
+
+  server.resource("contentful-locales", "contentful://locales", async uri => {
+    const locales = await getLocales();
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify(
+            {
+              defaultLocale:
+                locales.find(locale => locale.default)?.code ?? null,
+              locales,
+            },
+            null,
+            2
+          ),
+          mimeType: "application/json",
+        },
+      ],
+    };
+  });
+
+  server.resource(
+    "contentful-eboard-history",
+    "contentful://eboard/history",
+    async uri => ({
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify(await getEboardHistory(), null, 2),
+          mimeType: "application/json",
+        },
+      ],
+    })
+  );
+
+  // RESOURCES - Individual entries, addressable by URI template
+  const notFound = (uri: URL) =>
+    new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+
+  server.resource(
+    "contentful-blog-post",
+    new ResourceTemplate("contentful://blogPost/{slug}", {
+      list: async () => {
+        const posts = await getAllPosts();
+        return {
+          resources: posts.map(post => ({
+            uri: `contentful://blogPost/${post.fields.slug}`,
+            name: post.fields.title,
+            description: post.fields.excerpt,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    { description: "A single blog post, including its body as Markdown" },
+    async (uri, { slug }) => {
+      const { key, options } = entryRequest(uri, slug);
+      const post = await getPostBySlug(key, options);
+      if (!post) throw notFound(uri);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeBlogPostContent(post), null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  server.resource(
+    "contentful-meeting",
+    new ResourceTemplate("contentful://meeting/{id}", {
+      list: async () => {
+        const meetings = await getAllMeetings();
+        return {
+          resources: meetings.map(meeting => ({
+            uri: `contentful://meeting/${meeting.sys.id}`,
+            name: meeting.fields.title,
+            description: meeting.fields.date,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    { description: "A single meeting record" },
+    async (uri, { id }) => {
+      const { key, options } = entryRequest(uri, id);
+      const meeting = await getMeetingById(key, options);
+      if (!meeting) throw notFound(uri);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeMeeting(meeting), null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  server.resource(
+    "contentful-hackathon",
+    new ResourceTemplate("contentful://hackathon/{id}", {
+      list: async () => {
+        const hackathons = await getAllHackathons();
+        return {
+          resources: hackathons.map(hackathon => ({
+            uri: `contentful://hackathon/${hackathon.sys.id}`,
+            name: hackathon.fields.title,
+            description: hackathon.fields.description,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    { description: "A single hackathon, including its details as Markdown" },
+    async (uri, { id }) => {
+      const { key, options } = entryRequest(uri, id);
+      const hackathon = await getHackathonBySlug(key, options);
+      if (!hackathon) throw notFound(uri);
+
+      return {
         contents: [
           {
             uri: uri.href,
             text: JSON.stringify(
-              {
-                contentTypes: [
-                  {
-                    id: "blogPost",
-                    name: "Blog Post",
-                    description:
-                      "Blog posts with title, content, author, and publish date",
-                    fields: [
-                      "title",
-                      "slug",
-                      "content",
-                      "excerpt",
-                      "author",
-                      "publishDate",
-                      "coverImage",
-                    ],
-                  },
-                  {
-                    id: "meeting",
-                    name: "Meeting",
-                    description:
-                      "Meeting records with date, description, location, and resources",
-                    fields: [
-                      "title",
-                      "date",
-                      "description",
-                      "image",
-                      "meetingLocation",
-                      "slides",
-                      "slidesUrl",
-                      "recording",
-                      "resourcesUrl",
-                    ],
-                  },
-                  {
-                    id: "eboardMember",
-                    name: "Eboard Member",
-                    description:
-                      "Executive board members with position and contact info",
-                    fields: [
-                      "name",
-                      "position",
-                      "description",
-                      "linkedin",
-                      "github",
-                      "year",
-                      "image",
-                      "memberType",
-                    ],
-                  },
-                  {
-                    id: "hackathon",
-                    name: "Hackathon",
-                    description:
-                      "Hackathon events with dates, status, and registration info",
-                    fields: [
-                      "title",
-                      "slug",
-                      "description",
-                      "startDate",
-                      "endDate",
-                      "status",
-                      "registrationLink",
-                      "details",
-                      "image",
-                    ],
-                  },
-                  {
-                    id: "landingPageGraphics",
-                    name: "Landing Page Graphics",
-                    description:
-                      "Graphics and images for landing page displays",
-                    fields: ["title", "description", "image", "graphic"],
-                  },
-                  {
-                    id: "parallaxBanner",
-                    name: "Parallax Banner",
-                    description: "Banner images with parallax effects",
-                    fields: ["title", "image", "link"],
-                  },
-                ],
-              },
+              serializeHackathon(hackathon, { includeBody: true }),
               null,
               2
             ),
             mimeType: "application/json",
           },
         ],
-      })
-    );
+      };
+    }
+  );
 
-    server.resource(
-      "contentful-stats",
-      "contentful://stats/overview",
-      async uri => {
-        try {
-          const [
-            posts,
-            meetings,
-            currentEboard,
-            pastEboard,
-            hackathons,
-            graphics,
-            banners,
-          ] = await Promise.all([
-            getAllPosts(),
-            getAllMeetings(),
-            getCurrentEboardMembers(),
-            getPastEboardMembers(),
-            getAllHackathons(),
-            getAllLandingPageGraphics(),
-            getParallaxBanners(),
-          ]);
+  server.resource(
+    "contentful-eboard-member",
+    new ResourceTemplate("contentful://eboardMember/{id}", {
+      list: async () => {
+        const [current, past] = await Promise.all([
+          getCurrentEboardMembers(),
+          getPastEboardMembers(),
+        ]);
+        return {
+          resources: [...current, ...past].map(member => ({
+            uri: `contentful://eboardMember/${member.sys.id}`,
+            name: member.fields.name,
+            description: `${member.fields.position} (${member.fields.memberType})`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    { description: "A single executive board member profile" },
+    async (uri, { id }) => {
+      const { key, options } = entryRequest(uri, id);
+      const member = await getEboardMemberById(key, options);
+      if (!member) throw notFound(uri);
 
-          return {
-            contents: [
-              {
-                uri: uri.href,
-                text: JSON.stringify(
-                  {
-                    overview: "Contentful CMS Statistics",
-                    counts: {
-                      blogPosts: posts.length,
-                      meetings: meetings.length,
-                      currentEboardMembers: currentEboard.length,
-                      pastEboardMembers: pastEboard.length,
-                      hackathons: hackathons.length,
-                      landingPageGraphics: graphics.length,
-                      parallaxBanners: banners.length,
-                    },
-                    lastUpdated: new Date().toISOString(),
-                  },
-                  null,
-                  2
-                ),
-                mimeType: "application/json",
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            contents: [
-              {
-                uri: uri.href,
-                text: `Error fetching Contentful statistics: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-          };
-        }
-      }
-    );
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeEboardMember(member), null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
 
-    // TOOLS - Query Contentful data with parameters
+  server.resource(
+    "contentful-landing-page-graphic",
+    new ResourceTemplate("contentful://landingPageGraphics/{id}", {
+      list: async () => {
+        const graphics = await getAllLandingPageGraphics();
+        return {
+          resources: graphics.map(graphic => ({
+            uri: `contentful://landingPageGraphics/${graphic.sys.id}`,
+            name: graphic.fields.title,
+            description: graphic.fields.description,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    { description: "A single landing page graphic" },
+    async (uri, { id }) => {
+      const { key, options } = entryRequest(uri, id);
+      const graphic = await getLandingPageGraphicById(key, options);
+      if (!graphic) throw notFound(uri);
 
-    // Query blog posts
-    server.tool(
-      "query-blog-posts",
-      "Query blog posts from Contentful",
-      {
-        slug: z
-          .string()
-          .optional()
-          .describe("Optional slug to get a specific post"),
-        limit: z.number().optional().describe("Limit number of results"),
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeGraphic(graphic), null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
+
+  server.resource(
+    "contentful-parallax-banner",
+    new ResourceTemplate("contentful://parallaxBanner/{id}", {
+      list: async () => {
+        const banners = await getParallaxBanners();
+        return {
+          resources: banners.map(banner => ({
+            uri: `contentful://parallaxBanner/${banner.sys.id}`,
+            name: banner.fields.title,
+            mimeType: "application/json",
+          })),
+        };
       },
-      async ({ slug, limit }) => {
-        try {
-          let results: BlogPost[];
-
-          if (slug) {
-            const post = await getPostBySlug(slug);
-            results = post ? [post] : [];
-          } else {
-            results = await getAllPosts();
-          }
+    }),
+    { description: "A single parallax banner" },
+    async (uri, { id }) => {
+      const { key, options } = entryRequest(uri, id);
+      const banner = await getParallaxBannerById(key, options);
+      if (!banner) throw notFound(uri);
 
-          if (limit && limit > 0) {
-            results = results.slice(0, limit);
-          }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(serializeBanner(banner), null, 2),
+            mimeType: "application/json",
+          },
+        ],
+      };
+    }
+  );
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    query: "blog-posts",
-                    parameters: { slug, limit },
-                    count: results.length,
-                    data: results.map(post => ({
-                      id: post.sys.id,
-                      title: post.fields.title,
-                      slug: post.fields.slug,
-                      excerpt: post.fields.excerpt,
-                      author: post.fields.author,
-                      publishDate: post.fields.publishDate,
-                      coverImageUrl: post.fields.coverImage?.fields?.file?.url,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error querying blog posts: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-            isError: true,
-          };
+  // PROMPTS - Ready-to-run club communications built from live data
+  server.prompt(
+    "weekly-newsletter",
+    "Draft this week's club newsletter from recent posts, meetings and hackathons",
+    {
+      focus: z
+        .string()
+        .optional()
+        .describe("Optional topic or event to emphasise"),
+    },
+    async ({ focus }) => buildWeeklyNewsletterPrompt(focus)
+  );
+
+  server.prompt(
+    "meeting-recap",
+    "Write a recap of a meeting for members who missed it",
+    {
+      meetingId: z.string().describe("ID of the meeting to recap"),
+    },
+    async ({ meetingId }) => buildMeetingRecapPrompt(meetingId)
+  );
+
+  server.prompt(
+    "hackathon-announcement",
+    "Write an announcement promoting a hackathon",
+    {
+      hackathonId: z.string().describe("ID of the hackathon to promote"),
+      channel: z
+        .string()
+        .optional()
+        .describe("Where it will be posted, e.g. email, discord, instagram"),
+    },
+    async ({ hackathonId, channel }) =>
+      buildHackathonAnnouncementPrompt(hackathonId, channel)
+  );
+
+  // TOOLS - Query Contentful data with parameters
+
+  // Query blog posts
+  server.tool(
+    "query-blog-posts",
+    "Query blog posts from Contentful",
+    {
+      slug: z
+        .string()
+        .optional()
+        .describe("Optional slug to get a specific post"),
+      ...paginationParams,
+      ...localeParams,
+      ...previewParams,
+      ...imageParams,
+      ...responseParams,
+    },
+    async ({
+      slug,
+      limit,
+      offset,
+      cursor,
+      locale,
+      preview,
+      images,
+      fields,
+      format,
+      maxTextLength,
+    }) => {
+      try {
+        const options = await readOptions(locale, preview);
+        let results: BlogPost[];
+
+        if (slug) {
+          const post = await getPostBySlug(slug, options);
+          results = post ? [post] : [];
+        } else {
+          results = await getAllPosts(options);
         }
-      }
-    );
 
-    // Query meetings
-    server.tool(
-      "query-meetings",
-      "Query meetings from Contentful",
-      {
-        type: z
-          .enum(["all", "upcoming"])
-          .optional()
-          .describe("Type of meetings to fetch"),
-        limit: z.number().optional().describe("Limit number of results"),
-      },
-      async ({ type = "all", limit }) => {
-        try {
-          let results: Meeting[];
-
-          if (type === "upcoming") {
-            results = await getUpcomingMeetings();
-          } else {
-            results = await getAllMeetings();
-          }
+        const page = paginate(results, { limit, offset, cursor });
 
-          if (limit && limit > 0) {
-            results = results.slice(0, limit);
-          }
+        return pageOutput(
+          "query-blog-posts",
+          {
+            query: "blog-posts",
+            parameters: {
+              slug,
+              limit,
+              offset,
+              cursor,
+              locale,
+              preview,
+              images,
+              fields,
+              format,
+              maxTextLength,
+            },
+            count: page.items.length,
+            total: page.total,
+            offset: page.offset,
+            nextCursor: page.nextCursor,
+            data: page.items.map(post => serializeBlogPost(post, images)),
+          },
+          { fields, format, maxTextLength }
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying blog posts: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 
+  // Get the full body of a single blog post
+  server.tool(
+    "get-blog-post-content",
+    "Get the full content of a blog post rendered as Markdown",
+    {
+      slug: z.string().describe("Slug of the blog post"),
+      ...localeParams,
+      ...previewParams,
+    },
+    async ({ slug, locale, preview }) => {
+      try {
+        const post = await getPostBySlug(
+          slug,
+          await readOptions(locale, preview)
+        );
+
+        if (!post) {
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(
-                  {
-                    query: "meetings",
-                    parameters: { type, limit },
-                    count: results.length,
-                    data: results.map(meeting => ({
-                      id: meeting.sys.id,
-                      title: meeting.fields.title,
-                      date: meeting.fields.date,
-                      description: meeting.fields.description,
-                      meetingLocation: meeting.fields.meetingLocation,
-                      slidesUrl: meeting.fields.slidesUrl,
-                      recording: meeting.fields.recording,
-                      resourcesUrl: meeting.fields.resourcesUrl,
-                      imageUrl: meeting.fields.image?.fields?.file?.url,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error querying meetings: ${error instanceof Error ? error.message : String(error)}`,
+                text: `No blog post found with slug "${slug}"`,
               },
             ],
             isError: true,
           };
         }
+
+        return toolOutput("get-blog-post-content", {
+          query: "blog-post-content",
+          parameters: { slug, locale, preview },
+          data: serializeBlogPostContent(post),
+        });
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fetching blog post content: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
       }
-    );
+    }
+  );
 
-    // Query eboard members
-    server.tool(
-      "query-eboard-members",
-      "Query executive board members from Contentful",
-      {
-        memberType: z
-          .enum(["current", "past", "all"])
-          .optional()
-          .describe("Type of members to fetch"),
-        limit: z.number().optional().describe("Limit number of results"),
-      },
-      async ({ memberType = "all", limit }) => {
-        try {
-          let results: EboardMember[];
-
-          if (memberType === "current") {
-            results = await getCurrentEboardMembers();
-          } else if (memberType === "past") {
-            results = await getPastEboardMembers();
-          } else {
-            const [current, past] = await Promise.all([
-              getCurrentEboardMembers(),
-              getPastEboardMembers(),
-            ]);
-            results = [...current, ...past];
-          }
+  // Query meetings
+  server.tool(
+    "query-meetings",
+    "Query meetings from Contentful by date window",
+    {
+      type: z
+        .enum(["all", "upcoming", "past"])
+        .optional()
+        .describe(
+          "Type of meetings to fetch; upcoming/past are relative to today in the club timezone"
+        ),
+      range: z
+        .enum(RELATIVE_RANGES)
+        .optional()
+        .describe("Relative date window, e.g. next_7_days or this_semester"),
+      from: z
+        .string()
+        .optional()
+        .describe(
+          "ISO date or date-time; only meetings on or after it (bare dates use the club timezone)"
+        ),
+      to: z
+        .string()
+        .optional()
+        .describe(
+          "ISO date or date-time; only meetings before it (a bare date includes that whole day)"
+        ),
+      ...paginationParams,
+      ...localeParams,
+      ...previewParams,
+      ...imageParams,
+      ...responseParams,
+    },
+    async ({
+      type = "all",
+      range,
+      from,
+      to,
+      limit,
+      offset,
+      cursor,
+      locale,
+      preview,
+      images,
+      fields,
+      format,
+      maxTextLength,
+    }) => {
+      try {
+        const options = await readOptions(locale, preview);
+        const window = resolveDateWindow({ range, from, to });
+        const today = startOfToday();
+        if (type === "upcoming" && !(window.from && window.from > today)) {
+          window.from = today;
+        }
+        if (type === "past" && !(window.to && window.to < today)) {
+          window.to = today;
+        }
 
-          if (limit && limit > 0) {
-            results = results.slice(0, limit);
-          }
+        // Soonest first for upcoming, most recent first otherwise
+        const results = await getMeetingsInWindow(
+          window,
+          type === "upcoming" ? "asc" : "desc",
+          options
+        );
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    query: "eboard-members",
-                    parameters: { memberType, limit },
-                    count: results.length,
-                    data: results.map(member => ({
-                      id: member.sys.id,
-                      name: member.fields.name,
-                      position: member.fields.position,
-                      description: member.fields.description,
-                      linkedin: member.fields.linkedin,
-                      github: member.fields.github,
-                      year: member.fields.year,
-                      memberType: member.fields.memberType,
-                      imageUrl: member.fields.image?.fields?.file?.url,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error querying eboard members: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-            isError: true,
-          };
+        const page = paginate(results, { limit, offset, cursor });
+
+        return pageOutput(
+          "query-meetings",
+          {
+            query: "meetings",
+            parameters: {
+              type,
+              range,
+              from,
+              to,
+              limit,
+              offset,
+              cursor,
+              locale,
+              preview,
+              images,
+              fields,
+              format,
+              maxTextLength,
+            },
+            timeZone: env.CLUB_TIMEZONE,
+            window: {
+              from: window.from?.toISOString() ?? null,
+              to: window.to?.toISOString() ?? null,
+            },
+            count: page.items.length,
+            total: page.total,
+            offset: page.offset,
+            nextCursor: page.nextCursor,
+            data: page.items.map(meeting => serializeMeeting(meeting, images)),
+          },
+          { fields, format, maxTextLength }
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying meetings: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Query eboard members
+  server.tool(
+    "query-eboard-members",
+    "Query executive board members from Contentful",
+    {
+      memberType: z
+        .enum(["current", "past", "all"])
+        .optional()
+        .describe("Type of members to fetch"),
+      ...paginationParams,
+      ...localeParams,
+      ...previewParams,
+      ...imageParams,
+      ...responseParams,
+    },
+    async ({
+      memberType = "all",
+      limit,
+      offset,
+      cursor,
+      locale,
+      preview,
+      images,
+      fields,
+      format,
+      maxTextLength,
+    }) => {
+      try {
+        const options = await readOptions(locale, preview);
+        let results: EboardMember[];
+
+        if (memberType === "current") {
+          results = await getCurrentEboardMembers(options);
+        } else if (memberType === "past") {
+          results = await getPastEboardMembers(options);
+        } else {
+          const [current, past] = await Promise.all([
+            getCurrentEboardMembers(options),
+            getPastEboardMembers(options),
+          ]);
+          results = [...current, ...past];
         }
+
+        const page = paginate(results, { limit, offset, cursor });
+
+        return pageOutput(
+          "query-eboard-members",
+          {
+            query: "eboard-members",
+            parameters: {
+              memberType,
+              limit,
+              offset,
+              cursor,
+              locale,
+              preview,
+              images,
+              fields,
+              format,
+              maxTextLength,
+            },
+            count: page.items.length,
+            total: page.total,
+            offset: page.offset,
+            nextCursor: page.nextCursor,
+            data: page.items.map(member =>
+              serializeEboardMember(member, images)
+            ),
+          },
+          { fields, format, maxTextLength }
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying eboard members: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
       }
-    );
+    }
+  );
 
-    // Query hackathons
-    server.tool(
-      "query-hackathons",
-      "Query hackathons from Contentful",
-      {
-        status: z
-          .enum(["ongoing", "upcoming", "past", "all"])
-          .optional()
-          .describe("Status of hackathons to fetch"),
-        slug: z
-          .string()
-          .optional()
-          .describe("Optional slug/ID to get a specific hackathon"),
-        limit: z.number().optional().describe("Limit number of results"),
-      },
-      async ({ status = "all", slug, limit }) => {
-        try {
-          let results: Hackathon[];
-
-          if (slug) {
-            const hackathon = await getHackathonBySlug(slug);
-            results = hackathon ? [hackathon] : [];
-          } else if (status === "all") {
-            results = await getAllHackathons();
-          } else {
-            results = await getHackathonsByStatus(status);
-          }
+  // Who held each e-board position, year by year
+  server.tool(
+    "get-eboard-history",
+    "E-board rosters by academic year and who held each position, matching people across years by name or LinkedIn",
+    {
+      year: z
+        .string()
+        .optional()
+        .describe(
+          'Academic year ("2022-2023") or calendar year ("2022", matching both academic years it overlaps)'
+        ),
+      position: z
+        .string()
+        .optional()
+        .describe('Position, e.g. "President" or "VP"'),
+      person: z
+        .string()
+        .optional()
+        .describe("Name, part of a name or LinkedIn URL"),
+      ...localeParams,
+      ...previewParams,
+    },
+    async ({ year, position, person, locale, preview }) => {
+      try {
+        const options = await readOptions(locale, preview);
+        const history = await getEboardHistory(
+          { year, position, person },
+          options
+        );
 
-          if (limit && limit > 0) {
-            results = results.slice(0, limit);
-          }
+        return toolOutput("get-eboard-history", {
+          query: "eboard-history",
+          parameters: { year, position, person, locale, preview },
+          count: history.rosters.reduce(
+            (count, roster) => count + roster.members.length,
+            0
+          ),
+          ...history,
+        });
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying eboard history: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    query: "hackathons",
-                    parameters: { status, slug, limit },
-                    count: results.length,
-                    data: results.map(hackathon => ({
-                      id: hackathon.sys.id,
-                      title: hackathon.fields.title,
-                      slug: hackathon.fields.slug,
-                      description: hackathon.fields.description,
-                      startDate: hackathon.fields.startDate,
-                      endDate: hackathon.fields.endDate,
-                      status: hackathon.fields.status,
-                      registrationLink: hackathon.fields.registrationLink,
-                      imageUrl: hackathon.fields.image?.fields?.file?.url,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error querying hackathons: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-            isError: true,
-          };
+  // Query hackathons
+  server.tool(
+    "query-hackathons",
+    "Query hackathons from Contentful",
+    {
+      status: z
+        .enum(["ongoing", "upcoming", "past", "all"])
+        .optional()
+        .describe(
+          "Status of hackathons to fetch, computed from their dates unless overridden in Contentful"
+        ),
+      slug: z
+        .string()
+        .optional()
+        .describe("Optional slug/ID to get a specific hackathon"),
+      ...paginationParams,
+      includeBody: z
+        .boolean()
+        .optional()
+        .describe("Include the rich-text details rendered as Markdown"),
+      ...localeParams,
+      ...previewParams,
+      ...imageParams,
+      ...responseParams,
+    },
+    async ({
+      status = "all",
+      slug,
+      limit,
+      offset,
+      cursor,
+      includeBody = false,
+      locale,
+      preview,
+      images,
+      fields,
+      format,
+      maxTextLength,
+    }) => {
+      try {
+        const options = await readOptions(locale, preview);
+        let results: Hackathon[];
+
+        if (slug) {
+          const hackathon = await getHackathonBySlug(slug, options);
+          results = hackathon ? [hackathon] : [];
+        } else if (status === "all") {
+          results = await getAllHackathons(options);
+        } else {
+          results = await getHackathonsByStatus(status, options);
         }
-      }
-    );
 
-    // Query landing page graphics
-    server.tool(
-      "query-graphics",
-      "Query landing page graphics from Contentful",
-      {
-        title: z
-          .string()
-          .optional()
-          .describe("Optional title to get a specific graphic"),
-        limit: z.number().optional().describe("Limit number of results"),
-      },
-      async ({ title, limit }) => {
-        try {
-          let results: LandingPageGraphic[];
-
-          if (title) {
-            const graphic = await getLandingPageGraphicByTitle(title);
-            results = graphic ? [graphic] : [];
-          } else {
-            results = await getAllLandingPageGraphics();
-          }
+        const page = paginate(results, { limit, offset, cursor });
 
-          if (limit && limit > 0) {
-            results = results.slice(0, limit);
-          }
+        return pageOutput(
+          "query-hackathons",
+          {
+            query: "hackathons",
+            parameters: {
+              status,
+              slug,
+              limit,
+              offset,
+              cursor,
+              includeBody,
+              locale,
+              preview,
+              images,
+              fields,
+              format,
+              maxTextLength,
+            },
+            count: page.items.length,
+            total: page.total,
+            offset: page.offset,
+            nextCursor: page.nextCursor,
+            data: page.items.map(hackathon =>
+              serializeHackathon(hackathon, { images, includeBody })
+            ),
+          },
+          { fields, format, maxTextLength }
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying hackathons: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    query: "landing-page-graphics",
-                    parameters: { title, limit },
-                    count: results.length,
-                    data: results.map(graphic => ({
-                      id: graphic.sys.id,
-                      title: graphic.fields.title,
-                      description: graphic.fields.description,
-                      imageUrl:
-                        graphic.fields.image?.fields?.file?.url ||
-                        graphic.fields.graphic?.fields?.file?.url,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error querying graphics: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-            isError: true,
-          };
+  // Query landing page graphics
+  server.tool(
+    "query-graphics",
+    "Query landing page graphics from Contentful",
+    {
+      title: z
+        .string()
+        .optional()
+        .describe("Optional title to get a specific graphic"),
+      ...paginationParams,
+      ...localeParams,
+      ...previewParams,
+      ...imageParams,
+      ...responseParams,
+      includeImageData: z
+        .boolean()
+        .optional()
+        .describe(
+          `Also return the images themselves as image content, for the first ${MAX_IMAGES_PER_RESPONSE} results`
+        ),
+    },
+    async ({
+      title,
+      limit,
+      offset,
+      cursor,
+      locale,
+      preview,
+      images,
+      includeImageData,
+      fields,
+      format,
+      maxTextLength,
+    }) => {
+      try {
+        const options = await readOptions(locale, preview);
+        let results: LandingPageGraphic[];
+
+        if (title) {
+          const graphic = await getLandingPageGraphicByTitle(title, options);
+          results = graphic ? [graphic] : [];
+        } else {
+          results = await getAllLandingPageGraphics(options);
         }
+
+        const page = paginate(results, { limit, offset, cursor });
+
+        return pageOutput(
+          "query-graphics",
+          {
+            query: "landing-page-graphics",
+            parameters: {
+              title,
+              limit,
+              offset,
+              cursor,
+              locale,
+              preview,
+              images,
+              includeImageData,
+              fields,
+              format,
+              maxTextLength,
+            },
+            count: page.items.length,
+            total: page.total,
+            offset: page.offset,
+            nextCursor: page.nextCursor,
+            data: page.items.map(graphic => serializeGraphic(graphic, images)),
+          },
+          { fields, format, maxTextLength },
+          ...(includeImageData
+            ? await imageBlocks(
+                page.items.map(graphic => ({
+                  label: graphic.fields.title,
+                  asset: graphic.fields.image ?? graphic.fields.graphic,
+                })),
+                images
+              )
+            : [])
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying graphics: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
       }
-    );
+    }
+  );
 
-    // Query parallax banners
-    server.tool(
-      "query-banners",
-      "Query parallax banners from Contentful",
-      {
-        limit: z.number().optional().describe("Limit number of results"),
-      },
-      async ({ limit }) => {
-        try {
-          let results: ParallaxBanner[] = await getParallaxBanners();
+  // Query parallax banners
+  server.tool(
+    "query-banners",
+    "Query parallax banners from Contentful",
+    {
+      ...paginationParams,
+      ...localeParams,
+      ...previewParams,
+      ...imageParams,
+      ...responseParams,
+      includeImageData: z
+        .boolean()
+        .optional()
+        .describe(
+          `Also return the images themselves as image content, for the first ${MAX_IMAGES_PER_RESPONSE} results`
+        ),
+    },
+    async ({
+      limit,
+      offset,
+      cursor,
+      locale,
+      preview,
+      images,
+      includeImageData,
+      fields,
+      format,
+      maxTextLength,
+    }) => {
+      try {
+        const results: ParallaxBanner[] = await getParallaxBanners(
+          await readOptions(locale, preview)
+        );
 
-          if (limit && limit > 0) {
-            results = results.slice(0, limit);
-          }
+        const page = paginate(results, { limit, offset, cursor });
 
+        return pageOutput(
+          "query-banners",
+          {
+            query: "parallax-banners",
+            parameters: {
+              limit,
+              offset,
+              cursor,
+              locale,
+              preview,
+              images,
+              includeImageData,
+              fields,
+              format,
+              maxTextLength,
+            },
+            count: page.items.length,
+            total: page.total,
+            offset: page.offset,
+            nextCursor: page.nextCursor,
+            data: page.items.map(banner => serializeBanner(banner, images)),
+          },
+          { fields, format, maxTextLength },
+          ...(includeImageData
+            ? await imageBlocks(
+                page.items.map(banner => ({
+                  label: banner.fields.title,
+                  asset: banner.fields.image,
+                })),
+                images
+              )
+            : [])
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying banners: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Fetch one image asset as image content
+  server.tool(
+    "get-image",
+    "Get an image asset from Contentful as image content, to look at graphics and banners",
+    {
+      assetId: z
+        .string()
+        .describe("Asset ID, the assetId of an image in any tool's output"),
+      ...imageTransformParams,
+    },
+    async ({ assetId, ...transform }) => {
+      try {
+        const asset = await getImageAssetById(assetId);
+        if (!asset) {
           return {
             content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    query: "parallax-banners",
-                    parameters: { limit },
-                    count: results.length,
-                    data: results.map(banner => ({
-                      id: banner.sys.id,
-                      title: banner.fields.title,
-                      link: banner.fields.link,
-                      imageUrl: banner.fields.image?.fields?.file?.url,
-                    })),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error querying banners: ${error instanceof Error ? error.message : String(error)}`,
-              },
+              { type: "text", text: `Image asset "${assetId}" not found` },
             ],
             isError: true,
           };
         }
+
+        const { image, content } = await imageLoader.load(asset, transform);
+        return toolOutput(
+          "get-image",
+          {
+            query: "image",
+            parameters: { assetId, ...transform },
+            data: image,
+          },
+          content
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting image: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
       }
-    );
+    }
+  );
 
-    // Search across all content types
-    server.tool(
-      "search-content",
-      "Search across all Contentful content types",
-      {
-        query: z
-          .string()
-          .describe("Search query to match against titles and descriptions"),
-        contentTypes: z
-          .array(
-            z.enum([
-              "blogPost",
-              "meeting",
-              "eboardMember",
-              "hackathon",
-              "landingPageGraphics",
-              "parallaxBanner",
-            ])
-          )
-          .optional()
-          .describe("Specific content types to search in"),
-        limit: z
-          .number()
-          .optional()
-          .describe("Limit number of results per content type"),
-      },
-      async ({ query: searchQuery, contentTypes, limit = 5 }) => {
-        try {
-          const searchResults: any = {};
-          const typesToSearch = contentTypes || [
-            "blogPost",
-            "meeting",
-            "eboardMember",
-            "hackathon",
-            "landingPageGraphics",
-            "parallaxBanner",
-          ];
-
-          // Helper function to search in text fields
-          const matchesQuery = (text: string): boolean => {
-            return text.toLowerCase().includes(searchQuery.toLowerCase());
-          };
+  // Search across all content types
+  server.tool(
+    "search-content",
+    "Ranked, typo-tolerant full-text search across all Contentful content types, including blog and hackathon bodies",
+    {
+      query: z
+        .string()
+        .describe(
+          "Search query to match against titles, descriptions and body text"
+        ),
+      contentTypes: z
+        .array(z.enum(SEARCHABLE_CONTENT_TYPES))
+        .optional()
+        .describe("Specific content types to search in"),
+      limit: z
+        .number()
+        .optional()
+        .describe("Limit number of results per content type"),
+      ...localeParams,
+    },
+    async ({ query: searchQuery, contentTypes, limit = 5, locale }) => {
+      try {
+        await checkLocale(locale);
+        const typesToSearch = contentTypes || [...SEARCHABLE_CONTENT_TYPES];
+        const hits = await searchContent(searchQuery, {
+          contentTypes: typesToSearch,
+          limit,
+          locale,
+        });
 
-          // Search blog posts
-          if (typesToSearch.includes("blogPost")) {
-            const posts = await getAllPosts();
-            searchResults.blogPosts = posts
-              .filter(
-                post =>
-                  matchesQuery(post.fields.title) ||
-                  matchesQuery(post.fields.excerpt) ||
-                  matchesQuery(post.fields.author)
-              )
-              .slice(0, limit)
-              .map(post => ({
-                id: post.sys.id,
-                type: "blogPost",
-                title: post.fields.title,
-                slug: post.fields.slug,
-                excerpt: post.fields.excerpt,
-                author: post.fields.author,
-              }));
-          }
+        return toolOutput("search-content", {
+          searchQuery,
+          contentTypes: typesToSearch,
+          locale,
+          totalResults: hits.length,
+          results: hits.map(hit => ({
+            ...hit.data,
+            score: hit.score,
+            matchedField: hit.matchedField,
+            snippet: hit.snippet,
+          })),
+        });
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error searching content: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 
-          // Search meetings
-          if (typesToSearch.includes("meeting")) {
-            const meetings = await getAllMeetings();
-            searchResults.meetings = meetings
-              .filter(
-                meeting =>
-                  matchesQuery(meeting.fields.title) ||
-                  matchesQuery(meeting.fields.description)
-              )
-              .slice(0, limit)
-              .map(meeting => ({
-                id: meeting.sys.id,
-                type: "meeting",
-                title: meeting.fields.title,
-                date: meeting.fields.date,
-                description: meeting.fields.description,
-              }));
-          }
+  // Activity over time, for semester reports
+  server.tool(
+    "get-activity-report",
+    "Club activity over time: blog posts per month, meetings per semester, hackathons per year, meeting frequency, top blog authors and how many meetings have slides or recordings",
+    {
+      range: z
+        .enum(RELATIVE_RANGES)
+        .optional()
+        .describe(
+          "Relative window in the club timezone, e.g. this_semester or last_semester"
+        ),
+      from: z
+        .string()
+        .optional()
+        .describe("ISO date or datetime; leave out activity before it"),
+      to: z
+        .string()
+        .optional()
+        .describe(
+          "ISO date or datetime; leave out activity after it (bare dates are inclusive)"
+        ),
+      topAuthors: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("How many blog authors to rank (default 5)"),
+    },
+    async ({ range, from, to, topAuthors }) => {
+      try {
+        const report = await getActivityReport({
+          range,
+          from,
+          to,
+          topAuthors,
+        });
 
-          // Search eboard members
-          if (typesToSearch.includes("eboardMember")) {
-            const [current, past] = await Promise.all([
-              getCurrentEboardMembers(),
-              getPastEboardMembers(),
-            ]);
-            const allMembers = [...current, ...past];
-            searchResults.eboardMembers = allMembers
-              .filter(
-                member =>
-                  matchesQuery(member.fields.name) ||
-                  matchesQuery(member.fields.position) ||
-                  matchesQuery(member.fields.description)
-              )
-              .slice(0, limit)
-              .map(member => ({
-                id: member.sys.id,
-                type: "eboardMember",
-                name: member.fields.name,
-                position: member.fields.position,
-                memberType: member.fields.memberType,
-              }));
-          }
+        return toolOutput("get-activity-report", {
+          query: "activity-report",
+          parameters: { range, from, to, topAuthors },
+          ...report,
+        });
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error building activity report: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 
-          // Search hackathons
-          if (typesToSearch.includes("hackathon")) {
-            const hackathons = await getAllHackathons();
-            searchResults.hackathons = hackathons
-              .filter(
-                hackathon =>
-                  matchesQuery(hackathon.fields.title) ||
-                  matchesQuery(hackathon.fields.description)
-              )
-              .slice(0, limit)
-              .map(hackathon => ({
-                id: hackathon.sys.id,
-                type: "hackathon",
-                title: hackathon.fields.title,
-                description: hackathon.fields.description,
-                status: hackathon.fields.status,
-              }));
+  // Export meetings and hackathons as an iCalendar file
+  server.tool(
+    "export-calendar",
+    "Export meetings and hackathons as an iCalendar (.ics) file",
+    {
+      types: z
+        .array(z.enum(CALENDAR_EVENT_TYPES))
+        .optional()
+        .describe("Event types to include (default: all)"),
+      from: z
+        .string()
+        .optional()
+        .describe("ISO date; leave out events that end before it"),
+      to: z
+        .string()
+        .optional()
+        .describe("ISO date; leave out events that start after it"),
+    },
+    async ({ types, from, to }) => {
+      try {
+        const events = await getCalendarEvents({ types, from, to });
+
+        return toolOutput(
+          "export-calendar",
+          {
+            query: "export-calendar",
+            parameters: { types, from, to },
+            count: events.length,
+          },
+          {
+            type: "resource",
+            resource: {
+              uri: "contentful://calendar/events.ics",
+              mimeType: "text/calendar",
+              text: toICalendar(events),
+            },
           }
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error exporting calendar: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 
-          const totalResults = Object.values(searchResults).reduce(
-            (sum: number, arr: any) => sum + (arr?.length || 0),
-            0
-          );
+  // WRITE TOOLS - Author content through the Contentful Management API
+  const writeError = (action: string, error: unknown) => ({
+    content: [
+      {
+        type: "text" as const,
+        text: `Error running ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ],
+    isError: true,
+  });
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    searchQuery,
-                    contentTypes: typesToSearch,
-                    totalResults,
-                    results: searchResults,
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error searching content: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-            isError: true,
-          };
-        }
+  const publishParam = z
+    .boolean()
+    .optional()
+    .describe("Publish immediately instead of saving a draft");
+
+  server.tool(
+    "create-draft-blog-post",
+    "Create a blog post from Markdown; saved as a draft unless publish is true",
+    {
+      title: z.string().min(1).describe("Post title"),
+      content: z.string().min(1).describe("Post body as Markdown"),
+      author: z.string().min(1).describe("Author name"),
+      slug: z
+        .string()
+        .optional()
+        .describe("URL slug; derived from the title when omitted"),
+      excerpt: z.string().optional().describe("Short summary"),
+      publishDate: z
+        .string()
+        .optional()
+        .describe("ISO publish date; defaults to now"),
+      coverImageAssetId: z
+        .string()
+        .optional()
+        .describe("ID of an existing asset to use as the cover image"),
+      publish: publishParam,
+    },
+    async input => {
+      try {
+        return toolOutput("create-draft-blog-post", {
+          action: "create-draft-blog-post",
+          data: await createDraftBlogPost(input),
+        });
+      } catch (error) {
+        return writeError("create-draft-blog-post", error);
       }
-    );
+    }
+  );
+
+  server.tool(
+    "create-meeting",
+    "Create a meeting; saved as a draft unless publish is true",
+    {
+      title: z.string().min(1).describe("Meeting title"),
+      date: z
+        .string()
+        .describe("ISO date-time with offset, e.g. 2026-11-04T18:00:00-05:00"),
+      description: z.string().optional().describe("What the meeting covers"),
+      meetingLocation: z.string().optional().describe("Room or address"),
+      slidesUrl: z.string().url().optional().describe("Link to the slides"),
+      recording: z.string().url().optional().describe("Link to a recording"),
+      resourcesUrl: z
+        .string()
+        .url()
+        .optional()
+        .describe("Link to code or other resources"),
+      imageAssetId: z
+        .string()
+        .optional()
+        .describe("ID of an existing asset to use as the meeting image"),
+      publish: publishParam,
+    },
+    async input => {
+      try {
+        return toolOutput("create-meeting", {
+          action: "create-meeting",
+          data: await createMeeting(input),
+        });
+      } catch (error) {
+        return writeError("create-meeting", error);
+      }
+    }
+  );
+
+  server.tool(
+    "update-meeting-resources",
+    "Attach slides, recording or resource links to an existing meeting",
+    {
+      meetingId: z.string().describe("Meeting entry ID"),
+      slidesUrl: z.string().url().optional().describe("Link to the slides"),
+      recording: z.string().url().optional().describe("Link to a recording"),
+      resourcesUrl: z
+        .string()
+        .url()
+        .optional()
+        .describe("Link to code or other resources"),
+      publish: publishParam,
+    },
+    async ({ meetingId, publish, ...resources }) => {
+      try {
+        return toolOutput("update-meeting-resources", {
+          action: "update-meeting-resources",
+          data: await updateMeetingResources(meetingId, resources, publish),
+        });
+      } catch (error) {
+        return writeError("update-meeting-resources", error);
+      }
+    }
+  );
+
+  server.tool(
+    "add-parallax-banner",
+    "Create a parallax banner from an image URL or existing asset; saved as a draft unless publish is true",
+    {
+      title: z.string().min(1).describe("Banner title"),
+      imageUrl: z
+        .string()
+        .url()
+        .optional()
+        .describe("Public image URL to upload as a new asset"),
+      imageAssetId: z
+        .string()
+        .optional()
+        .describe("ID of an existing image asset; used instead of imageUrl"),
+      link: z.string().url().optional().describe("Where the banner links to"),
+      publish: publishParam,
+    },
+    async input => {
+      try {
+        return toolOutput("add-parallax-banner", {
+          action: "add-parallax-banner",
+          data: await addParallaxBanner(input),
+        });
+      } catch (error) {
+        return writeError("add-parallax-banner", error);
+      }
+    }
+  );
+}
+
+const capabilities = {
+  resources: {
+    "contentful-schema": {
+      description: "Contentful content type schemas and field definitions",
+    },
+    "contentful-stats": {
+      description: "Overview statistics of all Contentful content",
+    },
+    "contentful-activity": {
+      description: "Club activity over time, for semester reports",
+    },
+    "contentful-calendar": {
+      description: "iCalendar feed of meetings and hackathons",
+    },
+    "contentful-locales": {
+      description: "The space's locales and their fallback chains",
+    },
+    "contentful-eboard-history": {
+      description: "E-board rosters and position holders across all years",
+    },
+    "contentful-blog-post": {
+      description: "Individual blog posts by slug",
+    },
+    "contentful-meeting": {
+      description: "Individual meetings by ID",
+    },
+    "contentful-hackathon": {
+      description: "Individual hackathons by ID",
+    },
+    "contentful-eboard-member": {
+      description: "Individual executive board members by ID",
+    },
+    "contentful-landing-page-graphic": {
+      description: "Individual landing page graphics by ID",
+    },
+    "contentful-parallax-banner": {
+      description: "Individual parallax banners by ID",
+    },
   },
-  {
-    capabilities: {
-      resources: {
-        "contentful-schema": {
-          description: "Contentful content type schemas and field definitions",
-        },
-        "contentful-stats": {
-          description: "Overview statistics of all Contentful content",
+  prompts: {
+    "weekly-newsletter": {
+      description: "Weekly newsletter draft from live club data",
+    },
+    "meeting-recap": {
+      description: "Recap of a single meeting",
+    },
+    "hackathon-announcement": {
+      description: "Promotional announcement for a hackathon",
+    },
+  },
+  tools: {
+    "query-blog-posts": {
+      description: "Query blog posts with optional slug filtering",
+    },
+    "get-blog-post-content": {
+      description: "Get a blog post's full body as Markdown",
+    },
+    "query-meetings": {
+      description: "Query meetings by date window (upcoming, past, ranges)",
+    },
+    "query-eboard-members": {
+      description: "Query executive board members (current, past, or all)",
+    },
+    "get-eboard-history": {
+      description: "E-board rosters by year and who held each position",
+    },
+    "query-hackathons": {
+      description: "Query hackathons by status or specific slug/ID",
+    },
+    "query-graphics": {
+      description: "Query landing page graphics by title or get all",
+    },
+    "query-banners": {
+      description: "Query parallax banners",
+    },
+    "get-image": {
+      description: "Get an image asset as image content",
+    },
+    "search-content": {
+      description: "Ranked, typo-tolerant search across all content types",
+    },
+    "get-activity-report": {
+      description: "Club activity over time, for semester reports",
+    },
+    "export-calendar": {
+      description: "Export meetings and hackathons as an .ics file",
+    },
+    "create-draft-blog-post": {
+      description: "Create a draft blog post from Markdown",
+    },
+    "create-meeting": {
+      description: "Create a draft meeting",
+    },
+    "update-meeting-resources": {
+      description: "Attach slides, recording or resource links to a meeting",
+    },
+    "add-parallax-banner": {
+      description: "Create a draft parallax banner",
+    },
+  },
+};
+
+// Anything not listed here only needs read:public
+const REQUIRED_SCOPES: Record<string, Scope> = {
+  "create-draft-blog-post": "write:content",
+  "create-meeting": "write:content",
+  "update-meeting-resources": "write:content",
+  "add-parallax-banner": "write:content",
+};
+
+const requiredScope = (name: string): Scope =>
+  REQUIRED_SCOPES[name] ?? "read:public";
+
+const allowedOnly = (
+  entries: Record<string, { description: string }>,
+  scopes: readonly Scope[]
+) =>
+  Object.fromEntries(
+    Object.entries(entries).filter(([name]) =>
+      scopes.includes(requiredScope(name))
+    )
+  );
+
+// Only SSE connections are sessions; streamable HTTP here is stateless
+function trackSessions(event: { type: string; transport?: string }) {
+  const labels = { transport: event.transport ?? "unknown" };
+  if (event.type === "SESSION_STARTED") activeSessions.inc(labels);
+  if (event.type === "SESSION_ENDED") activeSessions.dec(labels);
+}
+
+// One MCP handler per scope set, so each only knows what its keys may use
+const handlers = new Map<string, (request: Request) => Promise<Response>>();
+
+function handlerFor(scopes: readonly Scope[]) {
+  const id = [...scopes].sort().join(" ");
+  let scoped = handlers.get(id);
+  if (!scoped) {
+    scoped = createMcpHandler(
+      server =>
+        registerContent(
+          instrumentServer(
+            restrictServer(
+              advertiseOutputSchemas(server),
+              scopes,
+              requiredScope
+            )
+          ),
+          scopes
+        ),
+      {
+        capabilities: {
+          resources: allowedOnly(capabilities.resources, scopes),
+          prompts: allowedOnly(capabilities.prompts, scopes),
+          tools: allowedOnly(capabilities.tools, scopes),
         },
       },
-      tools: {
-        "query-blog-posts": {
-          description: "Query blog posts with optional slug filtering",
-        },
-        "query-meetings": {
-          description: "Query meetings (all or upcoming)",
-        },
-        "query-eboard-members": {
-          description: "Query executive board members (current, past, or all)",
-        },
-        "query-hackathons": {
-          description: "Query hackathons by status or specific slug/ID",
-        },
-        "query-graphics": {
-          description: "Query landing page graphics by title or get all",
-        },
-        "query-banners": {
-          description: "Query parallax banners",
+      {
+        redisUrl: env.REDIS_URL,
+        basePath: "",
+        // The adapter's own logs are plain text; only useful when debugging
+        verboseLogs: env.LOG_LEVEL === "debug",
+        onEvent: event => {
+          trackSessions(event);
+          trackSessionOwner(event);
         },
-        "search-content": {
-          description: "Search across all content types with text matching",
+        maxDuration: 60,
+      }
+    );
+    handlers.set(id, scoped);
+  }
+  return scoped;
+}
+
+// JSON-RPC leaves -32000 to -32099 to implementations
+const RATE_LIMITED = -32029;
+
+// Resource names by URI prefix, so resources can have their own rate limits
+const RESOURCE_NAMES: [prefix: string, name: string][] = [
+  ["contentful://schema/", "contentful-schema"],
+  ["contentful://stats/activity", "contentful-activity"],
+  ["contentful://stats/", "contentful-stats"],
+  ["contentful://calendar/", "contentful-calendar"],
+  ["contentful://locales", "contentful-locales"],
+  ["contentful://eboard/", "contentful-eboard-history"],
+  ["contentful://blogPost/", "contentful-blog-post"],
+  ["contentful://meeting/", "contentful-meeting"],
+  ["contentful://hackathon/", "contentful-hackathon"],
+  ["contentful://eboardMember/", "contentful-eboard-member"],
+  ["contentful://landingPageGraphics/", "contentful-landing-page-graphic"],
+  ["contentful://parallaxBanner/", "contentful-parallax-banner"],
+];
+
+// The parts of a JSON-RPC message that rate limiting reads
+const jsonRpcMessageSchema = z.object({
+  id: z.union([z.string(), z.number(), z.null()]).optional(),
+  method: z.string().optional(),
+  params: z
+    .object({ name: z.string().optional(), uri: z.string().optional() })
+    .optional(),
+});
+
+type JsonRpcMessage = z.infer<typeof jsonRpcMessageSchema>;
+
+/** The tool, prompt or resource a JSON-RPC message uses, if it uses one. */
+function calledName(message: JsonRpcMessage): string | undefined {
+  switch (message.method) {
+    case "tools/call":
+    case "prompts/get":
+      return message.params?.name;
+    case "resources/read": {
+      const uri = message.params?.uri ?? "";
+      return RESOURCE_NAMES.find(([prefix]) => uri.startsWith(prefix))?.[1];
+    }
+  }
+}
+
+/**
+ * Counts the calls in an MCP request against the client's rate limits. Over
+ * the limit, the request is answered with a JSON-RPC error carrying
+ * `retryAfter` instead of reaching the server.
+ */
+async function rateLimited(
+  request: Request,
+  key: ApiKey
+): Promise<Response | undefined> {
+  if (request.method !== "POST") return undefined;
+
+  let body: unknown;
+  try {
+    body = await request.clone().json();
+  } catch {
+    return undefined;
+  }
+
+  // Messages the server can't parse either aren't calls to count
+  const messages = (Array.isArray(body) ? body : [body]).flatMap(message => {
+    const parsed = jsonRpcMessageSchema.safeParse(message);
+    return parsed.success ? [parsed.data] : [];
+  });
+  const client = await rateLimitClient(
+    request,
+    key === ANONYMOUS ? undefined : key.name
+  );
+
+  for (const message of messages) {
+    const name = calledName(message);
+    if (!name) continue;
+
+    const decision = await consumeRateLimit(client, name);
+    if (decision.allowed) continue;
+
+    // A batch is answered as a whole, so every request in it gets the error
+    const errors = messages
+      .filter(each => each.id !== undefined)
+      .map(each => ({
+        jsonrpc: "2.0",
+        id: each.id,
+        error: {
+          code: RATE_LIMITED,
+          message: `Rate limit exceeded for ${name}: ${decision.limit} calls per ${decision.windowSeconds}s. Retry in ${decision.retryAfterSeconds}s`,
+          data: {
+            retryAfter: decision.retryAfterSeconds,
+            limit: decision.limit,
+            windowSeconds: decision.windowSeconds,
+          },
         },
-      },
-    },
-  },
-  {
-    redisUrl: env.REDIS_URL,
-    basePath: "",
-    verboseLogs: true,
-    maxDuration: 60,
+      }));
+
+    rateLimitRejections.inc({ name });
+
+    // SSE responses travel over the event stream, so fail the POST itself
+    const sse = new URL(request.url).pathname.endsWith("/message");
+    return Response.json(Array.isArray(body) ? errors : errors[0], {
+      status: sse ? 429 : 200,
+      headers: { "Retry-After": String(decision.retryAfterSeconds) },
+    });
+  }
+  return undefined;
+}
+
+/**
+ * Whether the request posts a message to an SSE session some other key
+ * opened. The session's server would run it with the opener's scopes.
+ */
+async function postsToOthersSession(
+  request: Request,
+  owner: string
+): Promise<boolean> {
+  const url = new URL(request.url);
+  const sessionId = url.searchParams.get("sessionId");
+  if (request.method !== "POST" || !url.pathname.endsWith("/message")) {
+    return false;
+  }
+  return !!sessionId && !(await ownsSession(sessionId, owner));
+}
+
+async function handle(request: Request): Promise<Response> {
+  const key = await authenticate(request);
+  if (!key) {
+    return Response.json(
+      { error: "Missing or invalid API key" },
+      { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="mcp"' } }
+    );
+  }
+
+  const owner = key.hash ?? ANONYMOUS.name;
+  if (await postsToOthersSession(request, owner)) {
+    logger.warn("Rejected message for an SSE session of another key");
+    return Response.json(
+      { error: "This session was not opened with your API key" },
+      { status: 403 }
+    );
   }
-);
+  return withLogContext({ client: key.name }, () =>
+    withSessionOwner(
+      owner,
+      async () =>
+        (await rateLimited(request, key)) ?? handlerFor(key.scopes)(request)
+    )
+  );
+}
+
+async function handler(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const sessionId =
+    request.headers.get("mcp-session-id") ?? url.searchParams.get("sessionId");
+  const context = {
+    requestId: request.headers.get("x-vercel-id") ?? randomUUID(),
+    sessionId: sessionId ? sessionLogId(sessionId) : undefined,
+  };
+
+  return withLogContext(context, async () => {
+    const started = performance.now();
+    const response = await handle(request);
+    logger.info(`${request.method} ${url.pathname}`, {
+      status: response.status,
+      // SSE streams stay open, so this is the time to the first byte
+      durationMs: Math.round(performance.now() - started),
+    });
+    return response;
+  });
+}
 
 export { handler as GET, handler as POST, handler as DELETE };
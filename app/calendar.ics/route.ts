@@ -0,0 +1,61 @@
+import { Logger } from "@/app/utils/logger";
+import {
+  CALENDAR_EVENT_TYPES,
+  getCalendarEvents,
+  toICalendar,
+  type CalendarEventType,
+} from "@/app/utils/calendar";
+import { resolveDateWindow } from "@/app/utils/dates";
+
+const logger = new Logger("Calendar");
+
+const isEventType = (value: string): value is CalendarEventType =>
+  (CALENDAR_EVENT_TYPES as readonly string[]).includes(value);
+
+/**
+ * Subscribable iCalendar feed of meetings and hackathons. Accepts
+ * `?type=meeting,hackathon`, `?from=` and `?to=` (ISO dates).
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const types = params.get("type")?.split(",").filter(Boolean);
+
+  const unknown = types?.find(type => !isEventType(type));
+  if (unknown) {
+    return Response.json(
+      { error: `Unknown event type "${unknown}"` },
+      { status: 400 }
+    );
+  }
+
+  const from = params.get("from") ?? undefined;
+  const to = params.get("to") ?? undefined;
+  try {
+    resolveDateWindow({ from, to });
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  let events;
+  try {
+    events = await getCalendarEvents({
+      types: types as CalendarEventType[] | undefined,
+      from,
+      to,
+    });
+  } catch (error) {
+    logger.error("Failed to build calendar feed", error);
+    return Response.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+
+  return new Response(toICalendar(events), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="events.ics"',
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+}
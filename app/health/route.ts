@@ -0,0 +1,18 @@
+import { env } from "@/config/env";
+
+const startedAt = Date.now();
+
+/**
+ * Liveness: answers as long as the server can handle requests. It doesn't
+ * touch Contentful or Redis; /ready does that.
+ */
+export async function GET() {
+  return Response.json(
+    {
+      status: "ok",
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      contentSource: env.CONTENT_SOURCE,
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,30 @@
+import { timingSafeEqual } from "crypto";
+import { env } from "@/config/env";
+import { renderMetrics } from "@/app/utils/metrics";
+
+function hasValidToken(request: Request, token: string): boolean {
+  const provided = (request.headers.get("authorization") ?? "").replace(
+    /^Bearer\s+/i,
+    ""
+  );
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Prometheus scrape endpoint. Open unless METRICS_TOKEN is set, in which
+ * case scrapers must send it as a bearer token.
+ */
+export async function GET(request: Request) {
+  if (env.METRICS_TOKEN && !hasValidToken(request, env.METRICS_TOKEN)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { Logger } from "@/app/utils/logger";
+import { checkReadiness } from "@/app/utils/health";
+
+const logger = new Logger("Readiness");
+
+/**
+ * Readiness: checks Contentful credentials, the content types the tools
+ * need and Redis. Answers 503 only when tools can't work; a degraded
+ * report still returns 200.
+ */
+export async function GET() {
+  const report = await checkReadiness();
+  if (report.status !== "ok") {
+    logger.warn("Readiness check not ok", {
+      status: report.status,
+      failing: Object.entries(report.checks)
+        .filter(([, check]) => check.status !== "ok")
+        .map(([name, check]) => ({ name, message: check.message })),
+    });
+  }
+
+  return Response.json(report, {
+    status: report.status === "down" ? 503 : 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,249 @@
+import {
+  getAllHackathons,
+  getAllMeetings,
+  getAllPosts,
+  type BlogPost,
+  type Hackathon,
+  type Meeting,
+} from "@/app/utils/contentful";
+import {
+  calendarPeriod,
+  daysBetween,
+  parseDate,
+  resolveDateWindow,
+  SEMESTER_NAMES,
+  type CalendarPeriod,
+  type RelativeRange,
+} from "@/app/utils/dates";
+import { env } from "@/config/env";
+
+export interface ActivityFilter {
+  range?: RelativeRange;
+  /** ISO date; leave out activity before it */
+  from?: string;
+  /** ISO date; leave out activity after it (bare dates are inclusive) */
+  to?: string;
+  /** How many blog authors to rank */
+  topAuthors?: number;
+}
+
+export interface PeriodCount {
+  period: string;
+  count: number;
+}
+
+export interface ActivityReport {
+  /** When the report was built */
+  generatedAt: string;
+  /** When the newest of the reported entries last changed */
+  lastUpdated: string | null;
+  timeZone: string;
+  window: { from: string | null; to: string | null };
+  blogPosts: {
+    total: number;
+    /** "2025-09", oldest first, including months without posts */
+    perMonth: PeriodCount[];
+    topAuthors: { author: string; count: number }[];
+  };
+  meetings: {
+    total: number;
+    /** "Fall 2025", oldest first, including semesters without meetings */
+    perSemester: PeriodCount[];
+    /** Mean calendar days from one meeting to the next; null below two meetings */
+    averageDaysBetween: number | null;
+    /** Of the meetings that have already happened */
+    materials: {
+      held: number;
+      withSlides: number;
+      withRecording: number;
+      withSlidesOrRecording: number;
+      /** Fractions of `held`, null when no meetings were held */
+      slidesShare: number | null;
+      recordingShare: number | null;
+      slidesOrRecordingShare: number | null;
+    };
+  };
+  hackathons: {
+    total: number;
+    /** By start date, oldest first, including years without hackathons */
+    perYear: PeriodCount[];
+  };
+}
+
+const DEFAULT_TOP_AUTHORS = 5;
+
+// Periods as consecutive numbers, so gaps between them can be filled in
+interface PeriodScale {
+  index: (period: CalendarPeriod) => number;
+  label: (index: number) => string;
+}
+
+const MONTHS: PeriodScale = {
+  index: ({ year, month }) => year * 12 + month - 1,
+  label: index =>
+    `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`,
+};
+
+const SEMESTERS: PeriodScale = {
+  index: ({ year, semester }) => year * SEMESTER_NAMES.length + semester,
+  label: index =>
+    `${SEMESTER_NAMES[index % SEMESTER_NAMES.length]} ${Math.floor(index / SEMESTER_NAMES.length)}`,
+};
+
+const YEARS: PeriodScale = {
+  index: ({ year }) => year,
+  label: index => String(index),
+};
+
+/** How many `dates` fall in each period from the first to the last */
+function countPer(
+  dates: Date[],
+  scale: PeriodScale,
+  timeZone: string
+): PeriodCount[] {
+  const indexes = dates.map(date =>
+    scale.index(calendarPeriod(date, timeZone))
+  );
+  if (!indexes.length) return [];
+
+  const first = Math.min(...indexes);
+  const counts = new Array<number>(Math.max(...indexes) - first + 1).fill(0);
+  for (const index of indexes) counts[index - first]++;
+  return counts.map((count, offset) => ({
+    period: scale.label(first + offset),
+    count,
+  }));
+}
+
+/** When the most recently changed of `entries` changed, if any */
+export const lastUpdated = (
+  entries: { sys: { updatedAt?: string } }[]
+): string | null =>
+  entries
+    .map(entry => entry.sys.updatedAt)
+    .filter((updatedAt): updatedAt is string => !!updatedAt)
+    .sort()
+    .pop() ?? null;
+
+const share = (part: number, whole: number) =>
+  whole ? Math.round((part / whole) * 1000) / 1000 : null;
+
+const hasSlides = (meeting: Meeting) =>
+  !!(meeting.fields.slidesUrl || meeting.fields.slides?.fields?.file?.url);
+
+/**
+ * Publishing and meeting activity over time from the given entries, for
+ * semester reports. Blog posts count by publish date, meetings by date and
+ * hackathons by start date; entries without a readable date are left out.
+ */
+export function buildActivityReport(
+  content: { posts: BlogPost[]; meetings: Meeting[]; hackathons: Hackathon[] },
+  filter: ActivityFilter = {},
+  { now = new Date(), timeZone = env.CLUB_TIMEZONE } = {}
+): ActivityReport {
+  const window = resolveDateWindow(filter, { now, timeZone });
+  const inWindow = (date: Date | null): date is Date =>
+    !!date &&
+    (!window.from || date >= window.from) &&
+    (!window.to || date < window.to);
+
+  const dated = <T>(entries: T[], dateOf: (entry: T) => string | undefined) =>
+    entries
+      .map(entry => ({ entry, date: parseDate(dateOf(entry), timeZone) }))
+      .filter((item): item is { entry: T; date: Date } => inWindow(item.date))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const posts = dated(content.posts, post => post.fields.publishDate);
+  const meetings = dated(content.meetings, meeting => meeting.fields.date);
+  const hackathons = dated(
+    content.hackathons,
+    hackathon => hackathon.fields.startDate
+  );
+
+  const authors = new Map<string, number>();
+  for (const { entry } of posts) {
+    const author = entry.fields.author?.trim();
+    if (author) authors.set(author, (authors.get(author) ?? 0) + 1);
+  }
+
+  const gaps = meetings
+    .slice(1)
+    .map(({ date }, index) =>
+      daysBetween(meetings[index].date, date, timeZone)
+    );
+
+  const held = meetings
+    .filter(({ date }) => date <= now)
+    .map(({ entry }) => entry);
+  const withSlides = held.filter(hasSlides).length;
+  const withRecording = held.filter(meeting => meeting.fields.recording).length;
+  const withEither = held.filter(
+    meeting => hasSlides(meeting) || meeting.fields.recording
+  ).length;
+
+  return {
+    generatedAt: now.toISOString(),
+    lastUpdated: lastUpdated(
+      [...posts, ...meetings, ...hackathons].map(({ entry }) => entry)
+    ),
+    timeZone,
+    window: {
+      from: window.from?.toISOString() ?? null,
+      to: window.to?.toISOString() ?? null,
+    },
+    blogPosts: {
+      total: posts.length,
+      perMonth: countPer(
+        posts.map(({ date }) => date),
+        MONTHS,
+        timeZone
+      ),
+      topAuthors: [...authors]
+        .map(([author, count]) => ({ author, count }))
+        .sort((a, b) => b.count - a.count || a.author.localeCompare(b.author))
+        .slice(0, filter.topAuthors ?? DEFAULT_TOP_AUTHORS),
+    },
+    meetings: {
+      total: meetings.length,
+      perSemester: countPer(
+        meetings.map(({ date }) => date),
+        SEMESTERS,
+        timeZone
+      ),
+      averageDaysBetween: gaps.length
+        ? Math.round(
+            (gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length) * 10
+          ) / 10
+        : null,
+      materials: {
+        held: held.length,
+        withSlides,
+        withRecording,
+        withSlidesOrRecording: withEither,
+        slidesShare: share(withSlides, held.length),
+        recordingShare: share(withRecording, held.length),
+        slidesOrRecordingShare: share(withEither, held.length),
+      },
+    },
+    hackathons: {
+      total: hackathons.length,
+      perYear: countPer(
+        hackathons.map(({ date }) => date),
+        YEARS,
+        timeZone
+      ),
+    },
+  };
+}
+
+/** The activity report over all published content. */
+export async function getActivityReport(
+  filter: ActivityFilter = {}
+): Promise<ActivityReport> {
+  const [posts, meetings, hackathons] = await Promise.all([
+    getAllPosts(),
+    getAllMeetings(),
+    getAllHackathons(),
+  ]);
+  return buildActivityReport({ posts, meetings, hackathons }, filter);
+}
@@ -0,0 +1,79 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { describe, expect, it } from "vitest";
+import { restrictServer, type Scope } from "@/app/utils/auth";
+
+const REQUIRED_SCOPES: Record<string, Scope> = {
+  "get-posts": "read:public",
+  "create-post": "write:content",
+  "list-drafts": "read:drafts",
+  locales: "read:public",
+  drafts: "read:drafts",
+};
+
+/** A client connected to a server restricted to `scopes` */
+async function connect(scopes: Scope[]) {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  const restricted = restrictServer(
+    server,
+    scopes,
+    name => REQUIRED_SCOPES[name]
+  );
+
+  const reply = async () => ({
+    content: [{ type: "text" as const, text: "" }],
+  });
+  restricted.tool("get-posts", reply);
+  restricted.tool("create-post", reply);
+  restricted.prompt("list-drafts", () => ({ messages: [] }));
+  for (const name of ["locales", "drafts"]) {
+    restricted.resource(name, `contentful://${name}`, async uri => ({
+      contents: [{ uri: uri.href, text: name }],
+    }));
+  }
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return client;
+}
+
+describe("restrictServer", () => {
+  it("registers only what the scopes allow", async () => {
+    const client = await connect(["read:public"]);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(["get-posts"]);
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.name)).toEqual(["locales"]);
+  });
+
+  it("rejects calls to tools outside the scopes", async () => {
+    const client = await connect(["read:public"]);
+
+    await expect(
+      client.callTool({ name: "create-post", arguments: {} })
+    ).rejects.toThrow("Tool create-post not found");
+    await expect(
+      client.readResource({ uri: "contentful://drafts" })
+    ).rejects.toThrow("not found");
+  });
+
+  it("registers everything for keys with every scope", async () => {
+    const client = await connect([
+      "read:public",
+      "read:drafts",
+      "write:content",
+    ]);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(["get-posts", "create-post"]);
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(["list-drafts"]);
+  });
+});
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { env } from "@/config/env";
+import { Logger } from "@/app/utils/logger";
+import { redisConnection } from "@/app/utils/redis";
+
+const logger = new Logger("Auth");
+
+export const SCOPES = ["read:public", "read:drafts", "write:content"] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+export interface ApiKey {
+  /** Who the key was issued to; shown in logs, never the key itself */
+  name: string;
+  scopes: Scope[];
+  /** SHA-256 of the key; absent for anonymous requests */
+  hash?: string;
+}
+
+/** Requests without a key can read published content only. */
+export const ANONYMOUS: ApiKey = { name: "anonymous", scopes: ["read:public"] };
+
+// Redis hash mapping SHA-256 key hashes to JSON-encoded ApiKey records
+export const API_KEYS_REDIS_KEY = "mcp:api-keys";
+
+const apiKeySchema = z.object({
+  name: z.string().min(1),
+  scopes: z.array(z.enum(SCOPES)).min(1),
+});
+
+const configuredKeysSchema = z.array(
+  apiKeySchema.extend({
+    hash: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/, "hash must be a hex SHA-256 digest"),
+  })
+);
+
+/** Keys are random, so a plain SHA-256 is enough to keep them unreadable. */
+export const hashApiKey = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+function loadConfiguredKeys(): Map<string, ApiKey> {
+  if (!env.MCP_API_KEYS) return new Map();
+
+  let parsed;
+  try {
+    parsed = configuredKeysSchema.parse(JSON.parse(env.MCP_API_KEYS));
+  } catch (error) {
+    const detail =
+      error instanceof z.ZodError
+        ? error.errors
+            .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")
+        : (error as Error).message;
+    throw new Error(`❌ Invalid MCP_API_KEYS: ${detail}`);
+  }
+  return new Map(parsed.map(({ hash, ...key }) => [hash, key]));
+}
+
+const configuredKeys = loadConfiguredKeys();
+
+const getRedis = env.REDIS_URL
+  ? redisConnection({
+      url: env.REDIS_URL,
+      logger,
+      purpose: "key store",
+      fallback: "only MCP_API_KEYS keys are accepted",
+    })
+  : async () => undefined;
+
+async function findStoredKey(hash: string): Promise<ApiKey | undefined> {
+  const client = await getRedis();
+  if (!client) return undefined;
+
+  let stored: string | undefined;
+  try {
+    stored = await client.hGet(API_KEYS_REDIS_KEY, hash);
+  } catch (error) {
+    logger.warn("API key lookup failed, treating the key as unknown", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+  if (!stored) return undefined;
+
+  let record: unknown;
+  try {
+    record = JSON.parse(stored);
+  } catch {
+    record = undefined;
+  }
+  const parsed = apiKeySchema.safeParse(record);
+  if (!parsed.success) {
+    logger.warn("Ignoring malformed API key record in Redis", { hash });
+    return undefined;
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolves the caller's API key from a bearer token, checking MCP_API_KEYS
+ * and then Redis. Requests without a token are anonymous unless
+ * MCP_REQUIRE_AUTH is set; unknown tokens always resolve to undefined.
+ */
+export async function authenticate(
+  request: Request
+): Promise<ApiKey | undefined> {
+  const header = request.headers.get("authorization");
+  if (!header) return env.MCP_REQUIRE_AUTH ? undefined : ANONYMOUS;
+
+  const token = header.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) return undefined;
+
+  const hash = hashApiKey(token);
+  const key = configuredKeys.get(hash) ?? (await findStoredKey(hash));
+  if (!key) {
+    logger.warn("Rejected unknown API key", { hash: hash.slice(0, 12) });
+    return undefined;
+  }
+  return { ...key, hash };
+}
+
+/**
+ * Wraps `server` so tools, resources and prompts the scopes don't allow are
+ * never registered. Clients can neither list nor call them.
+ */
+export function restrictServer(
+  server: McpServer,
+  scopes: readonly Scope[],
+  requiredScope: (name: string) => Scope
+): McpServer {
+  const registrations = new Set(["tool", "resource", "prompt"]);
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== "string" || !registrations.has(property)) {
+        return value;
+      }
+      return (name: string, ...rest: unknown[]) =>
+        scopes.includes(requiredScope(name))
+          ? value.call(target, name, ...rest)
+          : undefined;
+    },
+  });
+}
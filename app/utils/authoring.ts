@@ -0,0 +1,271 @@
+import path from "path";
+import { invalidateCache } from "@/app/utils/cache";
+import { BLOCKS, type Document } from "@contentful/rich-text-types";
+import { markdownToRichText, richTextToMarkdown } from "@/app/utils/rich-text";
+import { validateEntryFields } from "@/app/utils/entry-validation";
+import {
+  DEFAULT_LOCALE,
+  getManagementApi,
+  publishState,
+  type LocalizedFields,
+  type ManagedEntry,
+  type PublishState,
+} from "@/app/utils/management";
+import { Logger } from "@/app/utils/logger";
+
+const logger = new Logger("Authoring");
+
+export interface AuthoringResult {
+  id: string;
+  contentType: string;
+  status: PublishState;
+  version: number;
+  /** Field values in the default locale; rich text as Markdown */
+  fields: Record<string, unknown>;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".svg": "image/svg+xml",
+};
+
+const localize = (fields: Record<string, unknown>): LocalizedFields =>
+  Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, { [DEFAULT_LOCALE]: value }])
+  );
+
+const delocalize = (fields: LocalizedFields): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, values]) => [key, values[DEFAULT_LOCALE]])
+  );
+
+const assetLink = (id: string) => ({
+  sys: { type: "Link", linkType: "Asset", id },
+});
+
+function toResult(entry: ManagedEntry): AuthoringResult {
+  // Show rich text the way it was written rather than as a node tree
+  const fields = Object.fromEntries(
+    Object.entries(delocalize(entry.fields)).map(([key, value]) => [
+      key,
+      (value as Document | undefined)?.nodeType === BLOCKS.DOCUMENT
+        ? richTextToMarkdown(value as Document)
+        : value,
+    ])
+  );
+
+  return {
+    id: entry.sys.id,
+    contentType: entry.sys.contentType?.sys.id ?? "asset",
+    status: publishState(entry.sys),
+    version: entry.sys.version,
+    fields,
+  };
+}
+
+async function assertValid(
+  contentType: string,
+  fields: Record<string, unknown>
+) {
+  const definition = await getManagementApi().getContentType(contentType);
+  const problems = validateEntryFields(definition, fields);
+  if (problems.length) {
+    throw new Error(`Invalid ${definition.name}: ${problems.join("; ")}`);
+  }
+}
+
+async function publishIfRequested(
+  entry: ManagedEntry,
+  contentType: string,
+  publish: boolean
+): Promise<ManagedEntry> {
+  if (!publish) return entry;
+  const published = await getManagementApi().publishEntry(entry);
+  // Don't wait for the webhook to serve the new version
+  await invalidateCache(contentType);
+  return published;
+}
+
+async function createEntry(
+  contentType: string,
+  fields: Record<string, unknown>,
+  publish: boolean
+): Promise<AuthoringResult> {
+  await assertValid(contentType, fields);
+
+  const api = getManagementApi();
+  const created = await api.createEntry(contentType, localize(fields));
+  const entry = await publishIfRequested(created, contentType, publish);
+
+  logger.info("Created entry", {
+    contentType,
+    id: entry.sys.id,
+    status: publishState(entry.sys),
+  });
+  return toResult(entry);
+}
+
+export const slugify = (title: string): string =>
+  title
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Creates a blog post from Markdown. The slug defaults to one derived from
+ * the title and must not be taken by another post, published or draft.
+ */
+export async function createDraftBlogPost(input: {
+  title: string;
+  content: string;
+  author: string;
+  slug?: string;
+  excerpt?: string;
+  publishDate?: string;
+  coverImageAssetId?: string;
+  publish?: boolean;
+}): Promise<AuthoringResult> {
+  const slug = input.slug ?? slugify(input.title);
+  // Ask the Management API, which unlike delivery also sees drafts
+  const existing = await getManagementApi().findEntry("blogPost", "slug", slug);
+  if (existing) {
+    throw new Error(`A blog post with slug "${slug}" already exists`);
+  }
+
+  return createEntry(
+    "blogPost",
+    {
+      title: input.title,
+      slug,
+      content: markdownToRichText(input.content),
+      excerpt: input.excerpt,
+      author: input.author,
+      publishDate: input.publishDate ?? new Date().toISOString(),
+      coverImage: input.coverImageAssetId
+        ? assetLink(input.coverImageAssetId)
+        : undefined,
+    },
+    input.publish ?? false
+  );
+}
+
+export async function createMeeting(input: {
+  title: string;
+  date: string;
+  description?: string;
+  meetingLocation?: string;
+  slidesUrl?: string;
+  recording?: string;
+  resourcesUrl?: string;
+  imageAssetId?: string;
+  publish?: boolean;
+}): Promise<AuthoringResult> {
+  const { publish = false, imageAssetId, ...fields } = input;
+  return createEntry(
+    "meeting",
+    {
+      ...fields,
+      image: imageAssetId ? assetLink(imageAssetId) : undefined,
+    },
+    publish
+  );
+}
+
+/**
+ * Sets a meeting's slides, recording and resources links, typically after
+ * it has happened. Only the links passed in change. A published meeting
+ * keeps its published version until `publish` is set.
+ */
+export async function updateMeetingResources(
+  meetingId: string,
+  resources: { slidesUrl?: string; recording?: string; resourcesUrl?: string },
+  publish = false
+): Promise<AuthoringResult> {
+  const changes = localize(resources);
+  if (!Object.keys(changes).length) {
+    throw new Error(
+      "Pass at least one of slidesUrl, recording or resourcesUrl"
+    );
+  }
+
+  const api = getManagementApi();
+  const entry = await api.getEntry(meetingId);
+  if (entry.sys.contentType?.sys.id !== "meeting") {
+    throw new Error(`Entry "${meetingId}" is not a meeting`);
+  }
+
+  const fields = { ...entry.fields, ...changes };
+  await assertValid("meeting", delocalize(fields));
+
+  const updated = await api.updateEntry({ ...entry, fields });
+  const result = await publishIfRequested(updated, "meeting", publish);
+
+  logger.info("Updated meeting resources", {
+    id: meetingId,
+    fields: Object.keys(changes),
+    status: publishState(result.sys),
+  });
+  return toResult(result);
+}
+
+/**
+ * Creates a parallax banner. The image is either an existing asset or a
+ * public URL, which is uploaded as a new asset first.
+ */
+export async function addParallaxBanner(input: {
+  title: string;
+  imageUrl?: string;
+  imageAssetId?: string;
+  link?: string;
+  publish?: boolean;
+}): Promise<AuthoringResult & { imageAssetId: string }> {
+  const publish = input.publish ?? false;
+  let imageAssetId = input.imageAssetId;
+
+  if (!imageAssetId) {
+    if (!input.imageUrl) {
+      throw new Error("Pass either imageUrl or imageAssetId");
+    }
+    const url = new URL(input.imageUrl);
+    const fileName = path.basename(url.pathname) || "banner";
+    const contentType = IMAGE_TYPES[path.extname(fileName).toLowerCase()];
+    if (!contentType) {
+      throw new Error(
+        `Unsupported image type "${fileName}"; use one of ${Object.keys(IMAGE_TYPES).join(", ")}`
+      );
+    }
+
+    // Validate before uploading so a bad banner doesn't leave a stray asset
+    await assertValid("parallaxBanner", {
+      title: input.title,
+      image: assetLink("pending"),
+      link: input.link,
+    });
+
+    const api = getManagementApi();
+    const asset = await api.createAsset({
+      title: input.title,
+      url: url.href,
+      contentType,
+      fileName,
+    });
+    if (publish) await api.publishAsset(asset);
+    imageAssetId = asset.sys.id;
+  }
+
+  const result = await createEntry(
+    "parallaxBanner",
+    { title: input.title, image: assetLink(imageAssetId), link: input.link },
+    publish
+  );
+  return { ...result, imageAssetId };
+}
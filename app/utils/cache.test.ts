@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Listener = (...args: unknown[]) => void;
+
+// Stand-ins for node-redis clients, in the order createClient hands them out
+const clients: FakeClient[] = [];
+
+class FakeClient {
+  isOpen = false;
+  listeners = new Map<string, Listener[]>();
+  values = new Map<string, string>();
+  failConnect = false;
+
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  async connect() {
+    if (this.failConnect) throw new Error("ECONNREFUSED");
+    this.isOpen = true;
+  }
+
+  async get(key: string) {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string) {
+    this.values.set(key, value);
+  }
+
+  /** Gives up the connection the way node-redis does after its last retry */
+  end() {
+    this.isOpen = false;
+    this.listeners.get("end")?.forEach(listener => listener());
+  }
+}
+
+// Set before a client is created to make its connect() fail
+let refuseConnections = false;
+
+vi.mock("redis", () => ({
+  createClient: () => {
+    const client = new FakeClient();
+    client.failConnect = refuseConnections;
+    clients.push(client);
+    return client;
+  },
+}));
+
+beforeEach(() => {
+  clients.length = 0;
+  refuseConnections = false;
+  vi.useFakeTimers();
+  vi.stubEnv("REDIS_URL", "redis://test");
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("cached", () => {
+  it("keeps caching in memory after Redis drops, then reconnects", async () => {
+    const { cached } = await import("@/app/utils/cache");
+    const loader = vi.fn(async () => ({ title: "Intro to Git" }));
+
+    await cached("meeting", "one", loader);
+    expect(clients[0].values.size).toBe(1);
+
+    refuseConnections = true;
+    clients[0].end();
+
+    // Redis is gone: the next miss is cached in memory instead
+    await cached("meeting", "two", loader);
+    await cached("meeting", "two", loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    // Connecting again waits, then goes back to Redis
+    refuseConnections = false;
+    await cached("meeting", "three", loader);
+    expect(clients).toHaveLength(2);
+    vi.advanceTimersByTime(30_000);
+    await cached("meeting", "three", loader);
+    expect(clients).toHaveLength(3);
+    expect(clients[2].values.size).toBe(1);
+  });
+});
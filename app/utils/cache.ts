@@ -0,0 +1,192 @@
+import { env } from "@/config/env";
+import { Logger } from "@/app/utils/logger";
+import { redisConnection, type RedisClient } from "@/app/utils/redis";
+import { cacheLookups } from "@/app/utils/metrics";
+
+const logger = new Logger("Cache");
+
+const KEY_PREFIX = "contentful:";
+const CONNECT_TIMEOUT_MS = 2000;
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * How long responses stay cached, per content type. Things that change
+ * around meetings are kept short; rarely edited content is kept for an hour.
+ */
+export const CACHE_TTL_SECONDS: Record<string, number> = {
+  blogPost: 300,
+  meeting: 120,
+  upcomingMeeting: 60,
+  eboardMember: 3600,
+  hackathon: 300,
+  landingPageGraphics: 3600,
+  parallaxBanner: 3600,
+  locale: 3600,
+  asset: 3600,
+};
+
+interface CacheStore {
+  readonly name: "redis" | "memory";
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>;
+}
+
+function createMemoryStore(): CacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+    async deleteByPrefix(prefix) {
+      let deleted = 0;
+      for (const key of entries.keys()) {
+        if (key.startsWith(prefix)) {
+          entries.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+}
+
+function createRedisStore(client: RedisClient): CacheStore {
+  return {
+    name: "redis",
+    async get(key) {
+      return (await client.get(key)) ?? undefined;
+    },
+    async set(key, value, ttlSeconds) {
+      await client.set(key, value, { EX: ttlSeconds });
+    },
+    async deleteByPrefix(prefix) {
+      const keys: string[] = [];
+      for await (const key of client.scanIterator({
+        MATCH: `${prefix}*`,
+        COUNT: 100,
+      })) {
+        keys.push(key);
+      }
+      return keys.length ? client.del(keys) : 0;
+    },
+  };
+}
+
+const memoryStore = createMemoryStore();
+
+const getRedis = env.REDIS_URL
+  ? redisConnection({
+      url: env.REDIS_URL,
+      logger,
+      purpose: "cache",
+      fallback: "using in-memory cache",
+      connectTimeoutMs: CONNECT_TIMEOUT_MS,
+    })
+  : async () => undefined;
+
+// Falls back to memory while Redis is away and goes back once it reconnects
+async function getStore(): Promise<CacheStore> {
+  const client = await getRedis();
+  return client ? createRedisStore(client) : memoryStore;
+}
+
+// Misses currently being loaded, so concurrent callers share one fetch
+const inflight = new Map<string, Promise<unknown>>();
+
+async function load<T>(
+  cacheStore: CacheStore,
+  key: string,
+  ttlSeconds: number,
+  loader: () => Promise<T>
+): Promise<T> {
+  const value = await loader();
+
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(value);
+  } catch {
+    // Entries with circular links can't be serialised; serve them uncached
+    return value;
+  }
+
+  try {
+    await cacheStore.set(key, serialized, ttlSeconds);
+  } catch (error) {
+    logger.warn("Failed to write cache entry", {
+      key,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  // Hand back the round-tripped copy so callers can't mutate each other's data
+  return JSON.parse(serialized) as T;
+}
+
+/**
+ * Returns the cached value for `key` within `contentType`, calling `loader`
+ * on a miss. Loader errors are never cached, and cache errors fall through
+ * to the loader so a broken Redis only costs latency.
+ */
+export async function cached<T>(
+  contentType: string,
+  key: string,
+  loader: () => Promise<T>
+): Promise<T> {
+  const cacheKey = `${KEY_PREFIX}${contentType}:${key}`;
+  const cacheStore = await getStore();
+
+  const lookup = (result: "hit" | "shared" | "miss") =>
+    cacheLookups.inc({ content_type: contentType, result });
+
+  try {
+    const hit = await cacheStore.get(cacheKey);
+    if (hit !== undefined) {
+      lookup("hit");
+      return JSON.parse(hit) as T;
+    }
+  } catch (error) {
+    logger.warn("Failed to read cache entry", {
+      key: cacheKey,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const pending = inflight.get(cacheKey);
+  if (pending) {
+    lookup("shared");
+    return pending as Promise<T>;
+  }
+  lookup("miss");
+
+  const ttlSeconds = CACHE_TTL_SECONDS[contentType] ?? DEFAULT_TTL_SECONDS;
+  const promise = load(cacheStore, cacheKey, ttlSeconds, loader).finally(() =>
+    inflight.delete(cacheKey)
+  );
+  inflight.set(cacheKey, promise);
+  return promise;
+}
+
+/**
+ * Drops every cached response for a content type, or for all content types
+ * when none is given. Returns the number of evicted entries.
+ */
+export async function invalidateCache(contentType?: string): Promise<number> {
+  const prefix = contentType ? `${KEY_PREFIX}${contentType}:` : KEY_PREFIX;
+  // Entries cached in memory during an outage would resurface in the next one
+  const local = await memoryStore.deleteByPrefix(prefix);
+  const cacheStore = await getStore();
+  return cacheStore === memoryStore
+    ? local
+    : local + (await cacheStore.deleteByPrefix(prefix));
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { toICalendar, type CalendarEvent } from "@/app/utils/calendar";
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: "meeting-1@sju-mcp.vercel.app",
+  type: "meeting",
+  title: "Intro to Git",
+  start: new Date("2026-03-04T22:00:00Z"),
+  end: new Date("2026-03-04T23:00:00Z"),
+  ...overrides,
+});
+
+const render = (events: CalendarEvent[]) =>
+  toICalendar(events, { generatedAt: new Date("2026-03-01T12:00:00Z") });
+
+// Content lines with folding undone, per RFC 5545 3.1
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("toICalendar", () => {
+  it("ends every line with CRLF", () => {
+    const ics = render([event()]);
+
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("writes UTC times, and dates for all-day events", () => {
+    const lines = unfold(
+      render([
+        event(),
+        event({
+          uid: "hackathon-1@sju-mcp.vercel.app",
+          type: "hackathon",
+          // April 10-12 in the club timezone
+          start: new Date("2026-04-10T04:00:00Z"),
+          end: new Date("2026-04-13T04:00:00Z"),
+          allDay: true,
+        }),
+      ])
+    );
+
+    expect(lines).toContain("DTSTART:20260304T220000Z");
+    expect(lines).toContain("DTSTAMP:20260301T120000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260410");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260413");
+  });
+
+  it("escapes backslashes, separators and newlines in text", () => {
+    const lines = unfold(
+      render([
+        event({
+          title: "Git, GitHub; and C:\\Users",
+          description: "Bring a laptop\nand a charger",
+        }),
+      ])
+    );
+
+    expect(lines).toContain("SUMMARY:Git\\, GitHub\\; and C:\\\\Users");
+    expect(lines).toContain("DESCRIPTION:Bring a laptop\\nand a charger");
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const description = "Pizza 🍕 and lightning talks. ".repeat(10);
+    const ics = render([event({ description })]);
+
+    for (const line of ics.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      // A split emoji would leave a lone surrogate that UTF-8 can't encode
+      expect(Buffer.from(line).toString()).toBe(line);
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  getAllHackathons,
+  getAllMeetings,
+  type Hackathon,
+  type Meeting,
+} from "@/app/utils/contentful";
+import {
+  calendarDate,
+  isDateOnly,
+  parseDate,
+  parseEndDate,
+  resolveDateWindow,
+} from "@/app/utils/dates";
+import { env } from "@/config/env";
+
+export const CALENDAR_EVENT_TYPES = ["meeting", "hackathon"] as const;
+
+export type CalendarEventType = (typeof CALENDAR_EVENT_TYPES)[number];
+
+export interface CalendarEvent {
+  /** Stable across exports so calendar apps update events in place */
+  uid: string;
+  type: CalendarEventType;
+  title: string;
+  start: Date;
+  /** Exclusive; for all-day events, midnight after the last day */
+  end: Date;
+  /** Whole days in the club timezone, from entries dated without a time */
+  allDay?: boolean;
+  description?: string;
+  location?: string;
+  url?: string;
+}
+
+export interface CalendarFilter {
+  /** Leave out or empty for every type */
+  types?: CalendarEventType[];
+  /** ISO date; events ending before it are left out */
+  from?: string;
+  /** ISO date; events starting after it are left out (bare dates are inclusive) */
+  to?: string;
+}
+
+// Meetings only store a start time
+const MEETING_DURATION_MS = 60 * 60 * 1000;
+
+const UID_DOMAIN = "sju-mcp.vercel.app";
+
+const isValidDate = (value?: string) =>
+  parseDate(value, env.CLUB_TIMEZONE) !== null;
+
+function meetingEvent(meeting: Meeting): CalendarEvent {
+  const { date } = meeting.fields;
+  const start = parseDate(date, env.CLUB_TIMEZONE)!;
+  const allDay = isDateOnly(date);
+  const links = [
+    meeting.fields.slidesUrl && `Slides: ${meeting.fields.slidesUrl}`,
+    meeting.fields.recording && `Recording: ${meeting.fields.recording}`,
+  ].filter(Boolean);
+
+  return {
+    uid: `${meeting.sys.id}@${UID_DOMAIN}`,
+    type: "meeting",
+    title: meeting.fields.title,
+    start,
+    end: allDay
+      ? parseEndDate(date, env.CLUB_TIMEZONE)!
+      : new Date(start.getTime() + MEETING_DURATION_MS),
+    allDay,
+    description: [meeting.fields.description, ...links]
+      .filter(Boolean)
+      .join("\n\n"),
+    location: meeting.fields.meetingLocation,
+    url: meeting.fields.resourcesUrl,
+  };
+}
+
+function hackathonEvent(hackathon: Hackathon): CalendarEvent {
+  const { startDate, endDate } = hackathon.fields;
+  const start = parseDate(startDate, env.CLUB_TIMEZONE)!;
+  // Bare dates on both ends (or a bare start alone) make whole-day events
+  const allDay =
+    isDateOnly(startDate) && (!isValidDate(endDate) || isDateOnly(endDate));
+  const end = isValidDate(endDate)
+    ? parseEndDate(endDate, env.CLUB_TIMEZONE)!
+    : allDay
+      ? parseEndDate(startDate, env.CLUB_TIMEZONE)!
+      : start;
+  const { registrationLink } = hackathon.fields;
+
+  return {
+    uid: `${hackathon.sys.id}@${UID_DOMAIN}`,
+    type: "hackathon",
+    title: hackathon.fields.title,
+    start,
+    end,
+    allDay,
+    description: [
+      hackathon.fields.description,
+      registrationLink && `Register: ${registrationLink}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    url: registrationLink,
+  };
+}
+
+/**
+ * Collects meetings and hackathons as calendar events, oldest first. Entries
+ * without a usable date are skipped.
+ */
+export async function getCalendarEvents(
+  filter: CalendarFilter = {}
+): Promise<CalendarEvent[]> {
+  // An empty list (e.g. `?type=`) means no filter, like a missing one
+  const types = new Set(
+    filter.types?.length ? filter.types : CALENDAR_EVENT_TYPES
+  );
+  const { from, to } = resolveDateWindow({
+    from: filter.from,
+    to: filter.to,
+  });
+
+  const [meetings, hackathons] = await Promise.all([
+    types.has("meeting") ? getAllMeetings() : [],
+    types.has("hackathon") ? getAllHackathons() : [],
+  ]);
+
+  return [
+    ...meetings
+      .filter(meeting => isValidDate(meeting.fields.date))
+      .map(meetingEvent),
+    ...hackathons
+      .filter(hackathon => isValidDate(hackathon.fields.startDate))
+      .map(hackathonEvent),
+  ]
+    .filter(event => (!from || event.end >= from) && (!to || event.start < to))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// RFC 5545 3.3.11: escape backslashes, separators and newlines in TEXT
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// 20251008, the club's calendar date
+const formatDate = (date: Date) =>
+  calendarDate(date, env.CLUB_TIMEZONE).replace(/-/g, "");
+
+// 20251008T220000Z
+const formatDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/** RFC 5545 3.1: lines longer than 75 octets continue after CRLF + space */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** Serializes events as an iCalendar (RFC 5545) document. */
+export function toICalendar(
+  events: CalendarEvent[],
+  options: { name?: string; generatedAt?: Date } = {}
+): string {
+  const stamp = formatDateTime(options.generatedAt ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//SJU ACM//MCP Server//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name ?? "SJU ACM Events")}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      ...(event.allDay
+        ? [
+            `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+            `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+          ]
+        : [
+            `DTSTART:${formatDateTime(event.start)}`,
+            `DTEND:${formatDateTime(event.end)}`,
+          ]),
+      `SUMMARY:${escapeText(event.title)}`,
+      `CATEGORIES:${event.type === "meeting" ? "Meeting" : "Hackathon"}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
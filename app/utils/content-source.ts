@@ -0,0 +1,301 @@
+import {
+  createClient,
+  type EntriesQueries,
+  type EntrySkeletonType,
+} from "contentful";
+import { env } from "@/config/env";
+import { Logger } from "@/app/utils/logger";
+import { createFixtureSource } from "@/app/utils/fixture-source";
+import { cached } from "@/app/utils/cache";
+import { fallbackChain, localize, type Locale } from "@/app/utils/locales";
+import { publishStatus } from "@/app/utils/preview";
+import {
+  contentfulRequestDuration,
+  contentfulRequestErrors,
+} from "@/app/utils/metrics";
+
+const logger = new Logger("ContentSource");
+
+/**
+ * A Delivery API style entries query. `locale: "*"` returns every field as a
+ * map of locale code to value, and `preview` reads drafts through the
+ * Preview API. Besides the keys below, any
+ * `sys.*` / `fields.*` key (optionally with an operator suffix such as
+ * `[match]` or `[in]`) is treated as a filter.
+ */
+export interface EntryQuery {
+  content_type: string;
+  order?: string[];
+  limit?: number;
+  skip?: number;
+  include?: number;
+  locale?: string;
+  preview?: boolean;
+  [filter: string]: unknown;
+}
+
+export interface EntryCollection<T> {
+  items: T[];
+  total: number;
+  skip: number;
+  limit: number;
+}
+
+/**
+ * Where entries come from. The getters in `contentful.ts` only talk to this
+ * interface, so the backing store can be swapped through configuration.
+ */
+export interface ContentSource {
+  readonly name: "contentful" | "fixtures";
+  getEntries<T extends EntrySkeletonType>(
+    query: EntryQuery
+  ): Promise<EntryCollection<T>>;
+  /** A single asset, or null if there's none with that ID. */
+  getAsset<T>(id: string): Promise<T | null>;
+  /** IDs of every content type. Never cached, so it also checks access. */
+  getContentTypeIds(): Promise<string[]>;
+  getLocales(): Promise<Locale[]>;
+}
+
+/**
+ * The SDK resolves links into a shared object graph, which can loop back on
+ * itself (a post embedding a meeting that links the post). Cycles are cut
+ * back to plain link objects so entries stay JSON-serialisable.
+ */
+function cutCycles(value: unknown, ancestors: object[] = []): unknown {
+  if (!value || typeof value !== "object") return value;
+  if (ancestors.includes(value)) {
+    const sys = "sys" in value ? value.sys : undefined;
+    return sys && typeof sys === "object" && "id" in sys && sys.id
+      ? {
+          sys: {
+            type: "Link",
+            linkType: "type" in sys ? sys.type : undefined,
+            id: sys.id,
+          },
+        }
+      : undefined;
+  }
+
+  const path = [...ancestors, value];
+  if (Array.isArray(value)) return value.map(item => cutCycles(item, path));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [key, cutCycles(child, path)])
+  );
+}
+
+export function createContentfulSource(options: {
+  spaceId: string;
+  accessToken: string;
+  host?: string;
+}): ContentSource {
+  const client = createClient({
+    space: options.spaceId,
+    accessToken: options.accessToken,
+    ...(options.host && { host: options.host }),
+  });
+
+  return {
+    name: "contentful",
+    async getEntries<T extends EntrySkeletonType>(query: EntryQuery) {
+      const { locale, ...rest } = query;
+      // Our entry interfaces are looser than the SDK's generated types
+      const response =
+        locale === "*"
+          ? await client.withAllLocales.getEntries<T>(
+              rest as EntriesQueries<T, "WITH_ALL_LOCALES">
+            )
+          : await client.getEntries<T>(query as EntriesQueries<T, undefined>);
+      return {
+        items: response.items.map(item => cutCycles(item)),
+        total: response.total,
+        skip: response.skip,
+        limit: response.limit,
+      } as unknown as EntryCollection<T>;
+    },
+    async getAsset<T>(id: string) {
+      // getAsset() throws for unknown IDs; a filtered query doesn't
+      const response = await client.getAssets({ "sys.id": id, limit: 1 });
+      return (response.items[0] ?? null) as T | null;
+    },
+    async getContentTypeIds() {
+      const response = await client.getContentTypes();
+      return response.items.map(contentType => contentType.sys.id);
+    },
+    async getLocales() {
+      const response = await client.getLocales();
+      return response.items.map(locale => ({
+        code: locale.code,
+        name: locale.name,
+        default: locale.default,
+        fallbackCode: locale.fallbackCode,
+      }));
+    },
+  };
+}
+
+// Stable key for a query regardless of the order its keys were written in
+const queryKey = (query: EntryQuery): string =>
+  JSON.stringify(
+    Object.keys(query)
+      .sort()
+      .map(key => [key, query[key]])
+  );
+
+/**
+ * Wraps a source so identical queries are answered from the response cache,
+ * with TTLs chosen per content type.
+ */
+export function withCache(source: ContentSource): ContentSource {
+  return {
+    name: source.name,
+    getEntries<T extends EntrySkeletonType>(query: EntryQuery) {
+      return cached(query.content_type, queryKey(query), async () => {
+        const labels = {
+          source: source.name,
+          content_type: query.content_type,
+        };
+        const started = performance.now();
+        try {
+          const response = await source.getEntries<T>(query);
+          const seconds = (performance.now() - started) / 1000;
+          contentfulRequestDuration.observe(labels, seconds);
+          logger.debug("Fetched entries", {
+            source: source.name,
+            contentType: query.content_type,
+            count: response.items.length,
+            durationMs: Math.round(seconds * 1000),
+          });
+          return response;
+        } catch (error) {
+          contentfulRequestErrors.inc(labels);
+          throw error;
+        }
+      });
+    },
+    getAsset: <T>(id: string) =>
+      cached("asset", id, () => source.getAsset<T>(id)),
+    getContentTypeIds: () => source.getContentTypeIds(),
+    getLocales: () => cached("locale", "all", () => source.getLocales()),
+  };
+}
+
+/**
+ * Wraps a source so queries for a locale other than the default one follow
+ * its fallback chain. Such queries fetch every locale at once, so all
+ * locales share one cached response per query.
+ */
+export function withLocales(source: ContentSource): ContentSource {
+  return {
+    name: source.name,
+    async getEntries<T extends EntrySkeletonType>(query: EntryQuery) {
+      const { locale, ...rest } = query;
+      if (!locale) return source.getEntries<T>(rest);
+      if (locale === "*") return source.getEntries<T>(query);
+
+      const locales = await source.getLocales();
+      const chain = fallbackChain(locale, locales);
+      if (locales.find(known => known.default)?.code === locale) {
+        return source.getEntries<T>(rest);
+      }
+
+      const response = await source.getEntries<T>({ ...rest, locale: "*" });
+      return { ...response, items: localize(response.items, chain) };
+    },
+    getAsset: <T>(id: string) => source.getAsset<T>(id),
+    getContentTypeIds: () => source.getContentTypeIds(),
+    getLocales: () => source.getLocales(),
+  };
+}
+
+/** What withPreview reads from entries of any content type */
+interface EntryVersion extends EntrySkeletonType {
+  sys: { id: string; updatedAt: string };
+}
+
+/**
+ * Wraps a delivery source so `preview` queries go to `preview` instead, with
+ * each entry's `sys.publishStatus` set by comparing it to `delivery`.
+ * Drafts change while officers edit them, so preview is never cached.
+ */
+export function withPreview(
+  delivery: ContentSource,
+  preview: ContentSource | undefined
+): ContentSource {
+  return {
+    name: delivery.name,
+    async getEntries<T extends EntrySkeletonType>(query: EntryQuery) {
+      const { preview: wantsPreview, ...rest } = query;
+      if (!wantsPreview) return delivery.getEntries<T>(rest);
+      if (!preview) {
+        throw new Error(
+          "Preview is not configured: set CONTENTFUL_PREVIEW_ACCESS_TOKEN"
+        );
+      }
+
+      const response = await preview.getEntries<T & EntryVersion>(rest);
+      const { items } = response;
+      if (!items.length) return response;
+
+      const published = await delivery.getEntries<EntryVersion>({
+        content_type: query.content_type,
+        "sys.id[in]": items.map(item => item.sys.id).join(","),
+        select: ["sys.id", "sys.updatedAt"],
+        include: 0,
+        limit: items.length,
+      });
+      const publishedAt = new Map(
+        published.items.map(item => [item.sys.id, item.sys.updatedAt])
+      );
+
+      return {
+        ...response,
+        items: items.map(item => ({
+          ...item,
+          sys: {
+            ...item.sys,
+            publishStatus: publishStatus(
+              item.sys.updatedAt,
+              publishedAt.get(item.sys.id)
+            ),
+          },
+        })),
+      };
+    },
+    getAsset: <T>(id: string) => delivery.getAsset<T>(id),
+    getContentTypeIds: () => delivery.getContentTypeIds(),
+    getLocales: () => delivery.getLocales(),
+  };
+}
+
+function createContentSource(): ContentSource {
+  if (env.CONTENT_SOURCE === "fixtures") {
+    logger.info("Serving content from local fixtures", {
+      dir: env.CONTENT_FIXTURES_DIR,
+    });
+    return createFixtureSource(env.CONTENT_FIXTURES_DIR);
+  }
+
+  // Presence of both is enforced by the env schema for this source
+  return createContentfulSource({
+    spaceId: env.CONTENTFUL_SPACE_ID!,
+    accessToken: env.CONTENTFUL_ACCESS_TOKEN!,
+  });
+}
+
+function createPreviewSource(): ContentSource | undefined {
+  if (env.CONTENT_SOURCE === "fixtures") {
+    return createFixtureSource(env.CONTENT_FIXTURES_DIR, { preview: true });
+  }
+  if (!env.CONTENTFUL_PREVIEW_ACCESS_TOKEN) return undefined;
+
+  return createContentfulSource({
+    spaceId: env.CONTENTFUL_SPACE_ID!,
+    accessToken: env.CONTENTFUL_PREVIEW_ACCESS_TOKEN,
+    host: env.CONTENTFUL_PREVIEW_HOST,
+  });
+}
+
+export const contentSource = withLocales(
+  withPreview(withCache(createContentSource()), createPreviewSource())
+);
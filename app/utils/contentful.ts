@@ -1,15 +1,56 @@
-import {
-  createClient,
-  EntrySkeletonType,
-  ContentfulClientApi,
-} from "contentful";
+import { EntrySkeletonType } from "contentful";
 import { Document } from "@contentful/rich-text-types";
-import { env } from "@/config/env";
+import { contentSource, type EntryQuery } from "@/app/utils/content-source";
+import { startOfToday, type DateWindow } from "@/app/utils/dates";
+import {
+  getHackathonTiming,
+  type HackathonStatus,
+} from "@/app/utils/hackathon-status";
+import { fallbackChain, type Locale } from "@/app/utils/locales";
+import { Logger } from "@/app/utils/logger";
+import type { PublishStatus } from "@/app/utils/preview";
+
+const logger = new Logger("Contentful");
+
+/** Per-call read settings, passed through to the content source query */
+export interface ReadOptions {
+  /** Locale to read, following its fallback chain */
+  locale?: string;
+  /** Read drafts through the Preview API; entries get `sys.publishStatus` */
+  preview?: boolean;
+}
 
-export interface BlogPost extends EntrySkeletonType {
-  sys: {
-    id: string;
+interface EntrySys {
+  id: string;
+  /** When the entry was last changed */
+  updatedAt: string;
+  /** Only set on entries read with `preview` */
+  publishStatus?: PublishStatus;
+}
+
+/** A linked asset; `fields` is missing when the link wasn't resolved */
+export interface ImageAsset {
+  sys?: { id: string };
+  fields: {
+    title?: string;
+    description?: string;
+    file: {
+      url: string;
+      fileName?: string;
+      contentType?: string;
+      details?: {
+        size?: number;
+        image?: {
+          width: number;
+          height: number;
+        };
+      };
+    };
   };
+}
+
+export interface BlogPost extends EntrySkeletonType {
+  sys: EntrySys;
   fields: {
     title: string;
     slug: string;
@@ -17,39 +58,18 @@ export interface BlogPost extends EntrySkeletonType {
     excerpt: string;
     author: string;
     publishDate: string;
-    coverImage: {
-      fields: {
-        file: {
-          url: string;
-          details: {
-            image: {
-              width: number;
-              height: number;
-            };
-          };
-        };
-        title: string;
-      };
-    };
+    coverImage: ImageAsset;
   };
 }
 
 export interface Meeting extends EntrySkeletonType {
-  sys: {
-    id: string;
-  };
+  sys: EntrySys;
   contentTypeId: string;
   fields: {
     title: string;
     date: string;
     description: string;
-    image: {
-      fields: {
-        file: {
-          url: string;
-        };
-      };
-    };
+    image: ImageAsset;
     meetingLocation?: string;
     slides?: {
       fields: {
@@ -68,27 +88,16 @@ export interface Meeting extends EntrySkeletonType {
 }
 
 export interface ParallaxBanner extends EntrySkeletonType {
-  sys: {
-    id: string;
-  };
+  sys: EntrySys;
   fields: {
     title: string;
-    image: {
-      fields: {
-        file: {
-          url: string;
-        };
-        title: string;
-      };
-    };
+    image: ImageAsset;
     link?: string;
   };
 }
 
 export interface EboardMember extends EntrySkeletonType {
-  sys: {
-    id: string;
-  };
+  sys: EntrySys;
   contentTypeId: string;
   fields: {
     name: string;
@@ -97,22 +106,13 @@ export interface EboardMember extends EntrySkeletonType {
     linkedin: string;
     github?: string;
     year?: string;
-    image: {
-      fields: {
-        file: {
-          url: string;
-        };
-        title: string;
-      };
-    };
+    image: ImageAsset;
     memberType: "current" | "past";
   };
 }
 
 export interface Hackathon extends EntrySkeletonType {
-  sys: {
-    id: string;
-  };
+  sys: EntrySys;
   contentTypeId: string;
   fields: {
     title: string;
@@ -123,131 +123,112 @@ export interface Hackathon extends EntrySkeletonType {
     status?: "ongoing" | "upcoming" | "past";
     registrationLink?: string;
     details?: Document; // Rich text for detailed content
-    image: {
-      fields: {
-        file: {
-          url: string;
-          details?: {
-            image?: {
-              width: number;
-              height: number;
-            };
-          };
-        };
-        title: string;
-      };
-    };
+    image: ImageAsset;
   };
 }
 
 export interface LandingPageGraphic extends EntrySkeletonType {
-  sys: {
-    id: string;
-  };
+  sys: EntrySys;
   contentTypeId: string;
   fields: {
     title: string;
     description?: string;
     // The image can be in either of these fields
-    image?: {
-      fields: {
-        file: {
-          url: string;
-          details?: {
-            image?: {
-              width: number;
-              height: number;
-            };
-          };
-        };
-        title: string;
-      };
-    };
+    image?: ImageAsset;
     // Some entries use 'graphic' instead of 'image'
-    graphic?: {
-      fields: {
-        file: {
-          url: string;
-          details?: {
-            image?: {
-              width: number;
-              height: number;
-            };
-          };
-        };
-        title: string;
-      };
-    };
+    graphic?: ImageAsset;
   };
 }
 
-// Create a more resilient client initialization
-let client: ContentfulClientApi<undefined>;
+// Contentful caps pages at 1000 entries; smaller pages keep responses that
+// include rich text and linked assets well under its response size limit
+const PAGE_SIZE = 200;
+
+/**
+ * Fetches every entry matching `query`, following `total` across as many
+ * pages as needed instead of stopping at the first page.
+ */
+async function getAllEntries<T extends EntrySkeletonType>(
+  query: EntryQuery
+): Promise<T[]> {
+  const items: T[] = [];
+  let total = Infinity;
+
+  while (items.length < total) {
+    const response = await contentSource.getEntries<T>({
+      ...query,
+      // Tie-break on ID so entries sharing a sort value can't shift between pages
+      order: [...(query.order ?? []), "sys.id"],
+      skip: items.length,
+      limit: PAGE_SIZE,
+    });
+    items.push(...response.items);
+    total = response.total;
 
-try {
-  // Check if environment variables are available
-  if (!env.CONTENTFUL_SPACE_ID || !env.CONTENTFUL_ACCESS_TOKEN) {
-    console.warn(
-      "Warning: Missing Contentful environment variables. Using fallback data where available."
-    );
+    // Guard against entries being deleted while we page
+    if (!response.items.length) break;
   }
 
-  // Create the client with explicit values (not relying on fallbacks)
-  const spaceId = env.CONTENTFUL_SPACE_ID;
-  const accessToken = env.CONTENTFUL_ACCESS_TOKEN;
+  return items;
+}
 
-  if (!spaceId || !accessToken) {
-    console.warn(
-      "Warning: Missing Contentful environment variables. Using fallback data where available."
-    );
-    throw new Error("Contentful credentials are missing");
+/** The space's locales, each with the fallback chain its queries follow. */
+export async function getLocales(): Promise<
+  (Locale & { fallbackChain: string[] })[]
+> {
+  try {
+    const locales = await contentSource.getLocales();
+    return locales.map(locale => ({
+      ...locale,
+      fallbackChain: fallbackChain(locale.code, locales),
+    }));
+  } catch (error) {
+    logger.error("Failed to fetch locales", error);
+    return [];
   }
+}
 
-  client = createClient({
-    space: spaceId,
-    accessToken: accessToken,
-  });
-
-  console.log("Contentful client initialized successfully");
-} catch (error) {
-  console.error("Error initializing Contentful client:", error);
-  // Create a dummy client that returns empty data
-  client = {
-    getEntries: async () => ({ items: [] }),
-  } as unknown as ContentfulClientApi<undefined>;
+/**
+ * Throws for a locale the space doesn't have. The getters below return
+ * nothing on errors, so tools check the locale first to report it instead.
+ */
+export async function checkLocale(locale?: string): Promise<void> {
+  if (locale) fallbackChain(locale, await contentSource.getLocales());
 }
 
-export async function getAllPosts(): Promise<BlogPost[]> {
+export async function getAllPosts(
+  options: ReadOptions = {}
+): Promise<BlogPost[]> {
   try {
-    console.log("Fetching posts with:", {
-      spaceId: env.CONTENTFUL_SPACE_ID,
-      hasAccessToken: !!env.CONTENTFUL_ACCESS_TOKEN,
-    });
-
-    const response = await client.getEntries<BlogPost>({
+    const items = await getAllEntries<BlogPost>({
       content_type: "blogPost",
+      ...options,
       order: ["-sys.createdAt"],
     });
 
-    return response.items.map(item => ({
+    return items.map(item => ({
       ...item,
       contentTypeId: "blogPost",
     }));
   } catch (error) {
-    console.error("Contentful error:", error);
+    logger.error("Failed to fetch blog posts", error);
     return [];
   }
 }
 
-export async function getPostBySlug(slug: string): Promise<BlogPost | null> {
+export async function getPostBySlug(
+  slug: string,
+  options: ReadOptions = {}
+): Promise<BlogPost | null> {
   try {
     const query = {
       content_type: "blogPost",
+      ...options,
       "fields.slug[match]": slug,
       limit: 1,
     } as const;
 
-    const response = await client.getEntries<BlogPost>(query);
+    const response = await contentSource.getEntries<BlogPost>(query);
 
     if (!response.items.length) return null;
 
@@ -256,19 +237,46 @@ export async function getPostBySlug(slug: string): Promise<BlogPost | null> {
       contentTypeId: "blogPost",
     };
   } catch (error) {
-    console.error("Error fetching post:", error);
+    logger.error("Failed to fetch blog post", error, { slug });
     return null;
   }
 }
 
-export async function getAllMeetings(): Promise<Meeting[]> {
+export async function getPostById(
+  id: string,
+  options: ReadOptions = {}
+): Promise<BlogPost | null> {
   try {
-    const response = await client.getEntries<Meeting>({
+    const response = await contentSource.getEntries<BlogPost>({
+      content_type: "blogPost",
+      ...options,
+      "sys.id": id,
+      limit: 1,
+    });
+
+    if (!response.items.length) return null;
+
+    return {
+      ...response.items[0],
+      contentTypeId: "blogPost",
+    };
+  } catch (error) {
+    logger.error("Failed to fetch blog post", error, { id });
+    return null;
+  }
+}
+
+export async function getAllMeetings(
+  options: ReadOptions = {}
+): Promise<Meeting[]> {
+  try {
+    const items = await getAllEntries<Meeting>({
       content_type: "meeting",
-      order: ["-fields.date"] as any,
+      ...options,
+      order: ["-fields.date"],
     });
 
-    const sortedMeetings = response.items.sort((a, b) => {
+    const sortedMeetings = items.sort((a, b) => {
       const dateA = new Date(a.fields.date).getTime();
       const dateB = new Date(b.fields.date).getTime();
       return dateB - dateA;
@@ -279,239 +287,268 @@ export async function getAllMeetings(): Promise<Meeting[]> {
       contentTypeId: "meeting",
     }));
   } catch (error) {
-    console.error("Contentful error:", error);
+    logger.error("Failed to fetch meetings", error);
     return [];
   }
 }
 
-export async function getUpcomingMeetings(): Promise<Meeting[]> {
+export async function getMeetingById(
+  id: string,
+  options: ReadOptions = {}
+): Promise<Meeting | null> {
   try {
-    const response = await client.getEntries<Meeting>({
-      content_type: "upcomingMeeting",
-      order: ["-sys.createdAt"],
+    const response = await contentSource.getEntries<Meeting>({
+      content_type: "meeting",
+      ...options,
+      "sys.id": id,
+      limit: 1,
     });
 
-    return response.items.map(item => ({
+    if (!response.items.length) return null;
+
+    return {
+      ...response.items[0],
+      contentTypeId: "meeting",
+    };
+  } catch (error) {
+    logger.error("Failed to fetch meeting", error, { id });
+    return null;
+  }
+}
+
+/**
+ * Meetings dated within `window`, newest first unless `order` is "asc". The
+ * bounds are sent to Contentful as `fields.date` range filters.
+ */
+export async function getMeetingsInWindow(
+  window: DateWindow,
+  order: "asc" | "desc" = "desc",
+  options: ReadOptions = {}
+): Promise<Meeting[]> {
+  try {
+    const query: EntryQuery = {
+      content_type: "meeting",
+      order: [order === "asc" ? "fields.date" : "-fields.date"],
+      ...options,
+    };
+    if (window.from) query["fields.date[gte]"] = window.from.toISOString();
+    if (window.to) query["fields.date[lt]"] = window.to.toISOString();
+
+    const items = await getAllEntries<Meeting>(query);
+
+    return items.map(item => ({
       ...item,
-      contentTypeId: "upcomingMeeting",
+      contentTypeId: "meeting",
     }));
   } catch (error) {
-    console.error("Contentful error:", error);
+    logger.error("Failed to fetch meetings", error, { window });
     return [];
   }
 }
 
-export async function getParallaxBanners(): Promise<ParallaxBanner[]> {
+/** Meetings from the start of today (club timezone) on, soonest first. */
+export async function getUpcomingMeetings(): Promise<Meeting[]> {
+  return getMeetingsInWindow({ from: startOfToday() }, "asc");
+}
+
+/** Meetings before today (club timezone), most recent first. */
+export async function getPastMeetings(): Promise<Meeting[]> {
+  return getMeetingsInWindow({ to: startOfToday() });
+}
+
+export async function getParallaxBanners(
+  options: ReadOptions = {}
+): Promise<ParallaxBanner[]> {
   try {
-    const response = await client.getEntries<ParallaxBanner>({
+    const items = await getAllEntries<ParallaxBanner>({
       content_type: "parallaxBanner",
+      ...options,
       order: ["-sys.createdAt"],
     });
 
-    return response.items.map(item => ({
+    return items.map(item => ({
       ...item,
       contentTypeId: "parallaxBanner",
     }));
   } catch (error) {
-    console.error("Contentful error:", error);
+    logger.error("Failed to fetch parallax banners", error);
     return [];
   }
 }
 
-export async function getCurrentEboardMembers(): Promise<EboardMember[]> {
+export async function getParallaxBannerById(
+  id: string,
+  options: ReadOptions = {}
+): Promise<ParallaxBanner | null> {
   try {
-    const response = await client.getEntries<EboardMember>({
+    const response = await contentSource.getEntries<ParallaxBanner>({
+      content_type: "parallaxBanner",
+      ...options,
+      "sys.id": id,
+      limit: 1,
+    });
+
+    if (!response.items.length) return null;
+
+    return {
+      ...response.items[0],
+      contentTypeId: "parallaxBanner",
+    };
+  } catch (error) {
+    logger.error("Failed to fetch parallax banner", error, { id });
+    return null;
+  }
+}
+
+export async function getCurrentEboardMembers(
+  options: ReadOptions = {}
+): Promise<EboardMember[]> {
+  try {
+    const items = await getAllEntries<EboardMember>({
       content_type: "eboardMember",
+      ...options,
       "fields.memberType": "current",
       order: ["sys.createdAt"],
-    } as any);
+    });
 
-    return response.items.map(item => ({
+    return items.map(item => ({
       ...item,
       contentTypeId: "eboardMember",
     }));
   } catch (error) {
-    console.error("Contentful error:", error);
+    logger.error("Failed to fetch current e-board members", error);
     return [];
   }
 }
 
-export async function getPastEboardMembers(): Promise<EboardMember[]> {
+export async function getPastEboardMembers(
+  options: ReadOptions = {}
+): Promise<EboardMember[]> {
   try {
-    const response = await client.getEntries<EboardMember>({
+    const items = await getAllEntries<EboardMember>({
       content_type: "eboardMember",
+      ...options,
       "fields.memberType": "past",
       order: ["sys.createdAt"],
-    } as any);
+    });
 
-    return response.items.map(item => ({
+    return items.map(item => ({
       ...item,
       contentTypeId: "eboardMember",
     }));
   } catch (error) {
-    console.error("Contentful error:", error);
+    logger.error("Failed to fetch past e-board members", error);
     return [];
   }
 }
 
-export async function addParallaxBanner(
-  title: string,
-  imageUrl: string,
-  link?: string
-): Promise<ParallaxBanner | null> {
+export async function getEboardMemberById(
+  id: string,
+  options: ReadOptions = {}
+): Promise<EboardMember | null> {
   try {
-    // This function requires management token with write access
-    // You would need to implement this with the Contentful Management API
-    // For now, this is just a placeholder to show how it could be done
-    console.log(
-      "To add a new parallax banner, use the Contentful web interface or implement the Management API"
-    );
-    console.log("Title:", title);
-    console.log("Image URL:", imageUrl);
-    console.log("Link:", link);
+    const response = await contentSource.getEntries<EboardMember>({
+      content_type: "eboardMember",
+      ...options,
+      "sys.id": id,
+      limit: 1,
+    });
 
-    return null;
+    if (!response.items.length) return null;
+
+    return {
+      ...response.items[0],
+      contentTypeId: "eboardMember",
+    };
   } catch (error) {
-    console.error("Error adding parallax banner:", error);
+    logger.error("Failed to fetch e-board member", error, { id });
     return null;
   }
 }
 
-export async function getAllHackathons(): Promise<Hackathon[]> {
+export async function getAllHackathons(
+  options: ReadOptions = {}
+): Promise<Hackathon[]> {
   try {
-    console.log("Fetching all hackathons");
-
-    const response = await client.getEntries<Hackathon>({
+    const items = await getAllEntries<Hackathon>({
       content_type: "hackathon",
-      order: ["-fields.startDate"] as any,
+      ...options,
+      order: ["-fields.startDate"],
     });
 
-    console.log(`Found ${response.items.length} hackathons`);
-
-    if (response.items.length > 0) {
-      console.log(
-        "Hackathon slugs:",
-        response.items.map(item => item.fields.slug)
-      );
-    }
-
-    return response.items.map(item => ({
+    return items.map(item => ({
       ...item,
       contentTypeId: "hackathon",
     }));
   } catch (error) {
-    console.error("Contentful error:", error);
+    logger.error("Failed to fetch hackathons", error);
     return [];
   }
 }
 
+/**
+ * Hackathons whose effective status matches: computed from their dates, or
+ * the stored `status` field when an editor has set one as an override.
+ */
 export async function getHackathonsByStatus(
-  status: "ongoing" | "upcoming" | "past"
+  status: HackathonStatus,
+  options: ReadOptions = {},
+  now = new Date()
 ): Promise<Hackathon[]> {
-  try {
-    // Since the status field might not exist, get all hackathons and filter manually
-    const response = await client.getEntries<Hackathon>({
-      content_type: "hackathon",
-      // Don't filter by status since it might not exist
-      limit: 100,
-    } as any);
-
-    // Filter manually based on status
-    const filteredItems = response.items.filter(item => {
-      // If status field doesn't exist, treat as 'upcoming' by default
-      const itemStatus = item.fields.status || "upcoming";
-      return itemStatus === status;
-    });
-
-    return filteredItems.map(item => ({
-      ...item,
-      contentTypeId: "hackathon",
-    }));
-  } catch (error) {
-    console.error("Contentful error:", error);
-    return [];
-  }
+  const hackathons = await getAllHackathons(options);
+  return hackathons.filter(
+    hackathon => getHackathonTiming(hackathon, now).status === status
+  );
 }
 
 export async function getHackathonBySlug(
-  slug: string
+  slug: string,
+  options: ReadOptions = {}
 ): Promise<Hackathon | null> {
   try {
-    console.log(`Fetching hackathon with slug: ${slug}`);
-
-    // Temporarily use a different approach - get all hackathons and find by ID
-    const response = await client.getEntries<Hackathon>({
+    // The hackathon model has no slug field to filter on, so "slug" is the entry ID
+    const response = await contentSource.getEntries<Hackathon>({
       content_type: "hackathon",
-      // Don't filter by slug since it doesn't exist
-      limit: 100,
-    } as any);
-
-    console.log(`Found ${response.items.length} hackathons total`);
-
-    // For debugging, log all available fields
-    if (response.items.length > 0) {
-      console.log("Available fields:", Object.keys(response.items[0].fields));
-    }
-
-    // Try to find the hackathon by ID instead of slug
-    const hackathon = response.items.find(item => item.sys.id === slug);
+      ...options,
+      "sys.id": slug,
+      limit: 1,
+    });
 
-    if (!hackathon) return null;
+    if (!response.items.length) return null;
 
     return {
-      ...hackathon,
+      ...response.items[0],
       contentTypeId: "hackathon",
     };
   } catch (error) {
-    console.error("Error fetching hackathon:", error);
+    logger.error("Failed to fetch hackathon", error, { slug });
     return null;
   }
 }
 
 export async function getLandingPageGraphicByTitle(
-  title: string
+  title: string,
+  options: ReadOptions = {}
 ): Promise<LandingPageGraphic | null> {
   try {
-    console.log(`Fetching landing page graphic with title: "${title}"`);
-
-    // Verify client and credentials before making the request
-    if (!env.CONTENTFUL_SPACE_ID || !env.CONTENTFUL_ACCESS_TOKEN) {
-      console.error(
-        "Contentful credentials missing when fetching graphic:",
-        title
-      );
-      return null;
-    }
-
-    const response = await client.getEntries<LandingPageGraphic>({
+    const response = await contentSource.getEntries<LandingPageGraphic>({
       content_type: "landingPageGraphics",
+      ...options,
       "fields.title": title,
       limit: 1,
-    } as any); // Type assertion needed due to Contentful types limitation
-
-    console.log(`Found ${response.items.length} items for "${title}"`);
+    });
 
     if (!response.items.length) {
-      console.log(`No graphic found with title "${title}", returning null`);
+      logger.debug("No landing page graphic with title", { title });
       return null;
     }
 
-    const item = response.items[0] as unknown as LandingPageGraphic;
+    const item = response.items[0];
 
-    // Check if the image is under 'graphic' field instead of 'image'
+    // Some entries keep the image under 'graphic' instead of 'image'
     const hasGraphicField = !!item.fields?.graphic;
-    const hasImageField = !!item.fields?.image;
-    let imageUrl = null;
-
-    // Check image field first
-    if (hasImageField && item.fields.image?.fields?.file?.url) {
-      imageUrl = item.fields.image.fields.file.url;
-      console.log(`Found ${title} URL in image field:`, imageUrl);
-    }
-    // Then check graphic field
-    else if (hasGraphicField && item.fields.graphic?.fields?.file?.url) {
-      imageUrl = item.fields.graphic.fields.file.url;
-      console.log(`Found ${title} URL in graphic field:`, imageUrl);
+    if (!item.fields?.image && hasGraphicField) {
+      logger.debug("Landing page graphic uses the graphic field", { title });
     }
 
     // Create a modified item with the image field properly set if it's under 'graphic'
@@ -528,26 +565,69 @@ export async function getLandingPageGraphicByTitle(
 
     return modifiedItem;
   } catch (error) {
-    console.error(`Error fetching landing page graphic "${title}":`, error);
+    logger.error("Failed to fetch landing page graphic", error, { title });
     return null;
   }
 }
 
-export async function getAllLandingPageGraphics(): Promise<
-  LandingPageGraphic[]
-> {
+export async function getAllLandingPageGraphics(
+  options: ReadOptions = {}
+): Promise<LandingPageGraphic[]> {
   try {
-    const response = await client.getEntries<LandingPageGraphic>({
+    const items = await getAllEntries<LandingPageGraphic>({
       content_type: "landingPageGraphics",
+      ...options,
       order: ["sys.createdAt"],
     });
 
-    return response.items.map(item => ({
+    return items.map(item => ({
       ...item,
       contentTypeId: "landingPageGraphics",
     }));
   } catch (error) {
-    console.error("Error fetching landing page graphics:", error);
+    logger.error("Failed to fetch landing page graphics", error);
     return [];
   }
 }
+
+export async function getLandingPageGraphicById(
+  id: string,
+  options: ReadOptions = {}
+): Promise<LandingPageGraphic | null> {
+  try {
+    const response = await contentSource.getEntries<LandingPageGraphic>({
+      content_type: "landingPageGraphics",
+      ...options,
+      "sys.id": id,
+      limit: 1,
+    });
+
+    if (!response.items.length) return null;
+
+    const item = response.items[0] as unknown as LandingPageGraphic;
+
+    // Normalise 'graphic' into 'image' the same way getLandingPageGraphicByTitle does
+    return {
+      ...item,
+      fields: {
+        ...item.fields,
+        image: item.fields.image || item.fields.graphic,
+      },
+      contentTypeId: "landingPageGraphics",
+    };
+  } catch (error) {
+    logger.error("Failed to fetch landing page graphic", error, { id });
+    return null;
+  }
+}
+
+export async function getImageAssetById(
+  id: string
+): Promise<ImageAsset | null> {
+  try {
+    return await contentSource.getAsset<ImageAsset>(id);
+  } catch (error) {
+    logger.error("Failed to fetch asset", error, { id });
+    return null;
+  }
+}
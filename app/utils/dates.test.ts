@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { daysBetween, resolveDateWindow } from "@/app/utils/dates";
+
+const timeZone = "America/New_York";
+
+const window = (
+  filter: Parameters<typeof resolveDateWindow>[0],
+  now = "2026-03-04T15:00:00Z"
+) => {
+  const { from, to } = resolveDateWindow(filter, {
+    now: new Date(now),
+    timeZone,
+  });
+  return { from: from?.toISOString(), to: to?.toISOString() };
+};
+
+describe("resolveDateWindow", () => {
+  it("gives the day clocks spring forward 23 hours", () => {
+    // Daylight saving time starts at 2am on March 8, 2026
+    expect(window({ range: "today" }, "2026-03-08T12:00:00Z")).toEqual({
+      from: "2026-03-08T05:00:00.000Z",
+      to: "2026-03-09T04:00:00.000Z",
+    });
+  });
+
+  it("starts weeks on Monday", () => {
+    expect(window({ range: "this_week" })).toEqual({
+      from: "2026-03-02T05:00:00.000Z",
+      to: "2026-03-09T04:00:00.000Z",
+    });
+  });
+
+  it("ends months at local midnight after clocks fall back", () => {
+    // Daylight saving time ends at 2am on November 1, 2026
+    expect(window({ range: "this_month" }, "2026-11-15T12:00:00Z")).toEqual({
+      from: "2026-11-01T04:00:00.000Z",
+      to: "2026-12-01T05:00:00.000Z",
+    });
+  });
+
+  it("reaches back into last year for last semester", () => {
+    expect(window({ range: "last_semester" }, "2026-02-10T12:00:00Z")).toEqual({
+      from: "2025-09-01T04:00:00.000Z",
+      to: "2026-01-01T05:00:00.000Z",
+    });
+  });
+
+  it("includes the whole of a bare `to` date", () => {
+    expect(window({ from: "2026-03-01", to: "2026-03-08" })).toEqual({
+      from: "2026-03-01T05:00:00.000Z",
+      to: "2026-03-09T04:00:00.000Z",
+    });
+  });
+
+  it("intersects a range with explicit bounds", () => {
+    expect(window({ range: "this_month", from: "2026-03-10" })).toEqual({
+      from: "2026-03-10T04:00:00.000Z",
+      to: "2026-04-01T04:00:00.000Z",
+    });
+  });
+
+  it("rejects dates that don't exist", () => {
+    expect(() => window({ from: "2026-02-30" })).toThrow(
+      'Invalid from date "2026-02-30"'
+    );
+    expect(() => window({ to: "next tuesday" })).toThrow("Invalid to date");
+  });
+});
+
+describe("daysBetween", () => {
+  it("counts calendar days across a DST change", () => {
+    // 12pm on March 7 to 11pm on March 8, local time
+    expect(
+      daysBetween(
+        new Date("2026-03-07T17:00:00Z"),
+        new Date("2026-03-09T03:00:00Z"),
+        timeZone
+      )
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,301 @@
+import { env } from "@/config/env";
+
+export const RELATIVE_RANGES = [
+  "today",
+  "this_week",
+  "next_7_days",
+  "last_7_days",
+  "next_30_days",
+  "last_30_days",
+  "this_month",
+  "last_month",
+  "this_semester",
+  "last_semester",
+] as const;
+
+export type RelativeRange = (typeof RELATIVE_RANGES)[number];
+
+/** Half-open interval [from, to); a missing bound is unbounded */
+export interface DateWindow {
+  from?: Date;
+  to?: Date;
+}
+
+// Months (1-12) each semester starts in: spring, summer, fall
+const SEMESTER_START_MONTHS = [1, 6, 9];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** The calendar day `date` falls on in `timeZone`. */
+function dayIn(date: Date, timeZone: string): CalendarDay {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find(part => part.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day") };
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `date`. */
+function offsetAt(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant midnight starts the given day in `timeZone`. Out-of-range days
+ * and months roll over, so `{ month: 13 }` is January of the next year.
+ */
+function midnight({ year, month, day }: CalendarDay, timeZone: string): Date {
+  const utc = Date.UTC(year, month - 1, day);
+  const guess = utc - offsetAt(new Date(utc), timeZone);
+  // Re-check in case a DST change falls between the guess and midnight
+  return new Date(utc - offsetAt(new Date(guess), timeZone));
+}
+
+/** Start of the club's current day; meetings from then on are upcoming. */
+export function startOfToday(
+  now = new Date(),
+  timeZone = env.CLUB_TIMEZONE
+): Date {
+  return midnight(dayIn(now, timeZone), timeZone);
+}
+
+/**
+ * Calendar days from `from` to `to` in the club timezone: 1 when `to` is
+ * tomorrow, whatever the time of day. Negative when `to` is earlier.
+ */
+export function daysBetween(
+  from: Date,
+  to: Date,
+  timeZone = env.CLUB_TIMEZONE
+): number {
+  const start = midnight(dayIn(from, timeZone), timeZone);
+  const end = midnight(dayIn(to, timeZone), timeZone);
+  // Rounding absorbs 23 and 25 hour days around DST changes
+  return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * The calendar year the academic year `now` falls in began. Academic years
+ * start with the fall semester, so August 2026 is still in 2025-2026.
+ */
+export function academicYearStart(
+  now = new Date(),
+  timeZone = env.CLUB_TIMEZONE
+): number {
+  const { year, month } = dayIn(now, timeZone);
+  const fall = SEMESTER_START_MONTHS[SEMESTER_START_MONTHS.length - 1];
+  return month >= fall ? year : year - 1;
+}
+
+export const SEMESTER_NAMES = ["Spring", "Summer", "Fall"] as const;
+
+export interface CalendarPeriod {
+  year: number;
+  /** 1-12 */
+  month: number;
+  /** Index into SEMESTER_NAMES */
+  semester: number;
+}
+
+/** The year, month and semester `date` falls in, in the club timezone. */
+export function calendarPeriod(
+  date: Date,
+  timeZone = env.CLUB_TIMEZONE
+): CalendarPeriod {
+  const { year, month } = dayIn(date, timeZone);
+  const semester =
+    SEMESTER_START_MONTHS.filter(start => start <= month).length - 1;
+  return { year, month, semester };
+}
+
+/**
+ * Parses a date field. Bare dates ("2025-04-14") start at midnight in the
+ * club timezone rather than UTC. Null when the value is missing or invalid.
+ */
+export function parseDate(
+  value: string | undefined,
+  timeZone = env.CLUB_TIMEZONE
+): Date | null {
+  if (!value) return null;
+  if (DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    return midnight({ year, month, day }, timeZone);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** The club's calendar date at `date`, as "2025-03-08". */
+export function calendarDate(date: Date, timeZone = env.CLUB_TIMEZONE): string {
+  const { year, month, day } = dayIn(date, timeZone);
+  return [year, month, day]
+    .map((part, index) => String(part).padStart(index ? 2 : 4, "0"))
+    .join("-");
+}
+
+/** Whether `value` is a bare date such as "2025-03-08", without a time */
+export const isDateOnly = (value?: string): boolean =>
+  !!value && DATE_ONLY.test(value);
+
+/**
+ * Parses the end of a date range. A bare date ends when that day does, the
+ * way an inclusive `to` date covers the whole day.
+ */
+export function parseEndDate(
+  value: string | undefined,
+  timeZone = env.CLUB_TIMEZONE
+): Date | null {
+  if (value && DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    return midnight({ year, month, day: day + 1 }, timeZone);
+  }
+  return parseDate(value, timeZone);
+}
+
+/** The instant the club's day containing `date` ends. */
+export function endOfDay(date: Date, timeZone = env.CLUB_TIMEZONE): Date {
+  const { year, month, day } = dayIn(date, timeZone);
+  return midnight({ year, month, day: day + 1 }, timeZone);
+}
+
+function relativeWindow(
+  range: RelativeRange,
+  now: Date,
+  timeZone: string
+): Required<DateWindow> {
+  const today = dayIn(now, timeZone);
+  const { year, month, day } = today;
+  const at = (offset: Partial<CalendarDay>) =>
+    midnight(
+      {
+        year: year + (offset.year ?? 0),
+        month: month + (offset.month ?? 0),
+        day: offset.day ?? day,
+      },
+      timeZone
+    );
+
+  switch (range) {
+    case "today":
+      return { from: at({}), to: at({ day: day + 1 }) };
+    case "this_week": {
+      // Weeks start on Monday
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      const monday = day - ((weekday + 6) % 7);
+      return { from: at({ day: monday }), to: at({ day: monday + 7 }) };
+    }
+    case "next_7_days":
+      return { from: at({}), to: at({ day: day + 8 }) };
+    case "last_7_days":
+      return { from: at({ day: day - 7 }), to: at({ day: day + 1 }) };
+    case "next_30_days":
+      return { from: at({}), to: at({ day: day + 31 }) };
+    case "last_30_days":
+      return { from: at({ day: day - 30 }), to: at({ day: day + 1 }) };
+    case "this_month":
+      return { from: at({ day: 1 }), to: at({ month: 1, day: 1 }) };
+    case "last_month":
+      return { from: at({ month: -1, day: 1 }), to: at({ day: 1 }) };
+    case "this_semester":
+    case "last_semester": {
+      const current = SEMESTER_START_MONTHS.filter(
+        start => start <= month
+      ).length;
+      // Semester index relative to this year's spring; -1 is last fall
+      const index = range === "this_semester" ? current - 1 : current - 2;
+      const starts = (i: number) => {
+        const count = SEMESTER_START_MONTHS.length;
+        const yearOffset = Math.floor(i / count);
+        const startMonth = SEMESTER_START_MONTHS[i - yearOffset * count];
+        return midnight(
+          { year: year + yearOffset, month: startMonth, day: 1 },
+          timeZone
+        );
+      };
+      return { from: starts(index), to: starts(index + 1) };
+    }
+  }
+}
+
+/**
+ * Parses a `from`/`to` bound. Bare dates ("2026-03-01") are whole days in
+ * the club timezone, so an inclusive `to` date covers that entire day.
+ */
+function parseBound(
+  value: string,
+  bound: "from" | "to",
+  timeZone: string
+): Date {
+  if (DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    // Reject dates like 2026-02-30 instead of rolling them over
+    if (new Date(Date.UTC(year, month - 1, day)).getUTCDate() !== day) {
+      throw new Error(`Invalid ${bound} date "${value}"`);
+    }
+    return midnight(
+      { year, month, day: bound === "to" ? day + 1 : day },
+      timeZone
+    );
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${bound} date "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Combines a relative range with explicit `from`/`to` bounds into a single
+ * window. When both are given the window is their intersection.
+ */
+export function resolveDateWindow(
+  filter: { range?: RelativeRange; from?: string; to?: string },
+  options: { now?: Date; timeZone?: string } = {}
+): DateWindow {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? env.CLUB_TIMEZONE;
+
+  const window: DateWindow = filter.range
+    ? relativeWindow(filter.range, now, timeZone)
+    : {};
+
+  if (filter.from) {
+    const from = parseBound(filter.from, "from", timeZone);
+    if (!window.from || from > window.from) window.from = from;
+  }
+  if (filter.to) {
+    const to = parseBound(filter.to, "to", timeZone);
+    if (!window.to || to < window.to) window.to = to;
+  }
+  return window;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { EboardMember } from "@/app/utils/contentful";
+import { buildEboardHistory } from "@/app/utils/eboard-history";
+
+const member = (
+  id: string,
+  fields: Partial<EboardMember["fields"]>
+): EboardMember => ({
+  sys: { id, updatedAt: "2025-01-01T00:00:00Z" },
+  contentTypeId: "eboardMember",
+  // Entries saved without every field, as Contentful allows for drafts
+  fields: { memberType: "past", ...fields } as EboardMember["fields"],
+});
+
+describe("buildEboardHistory", () => {
+  it("lists members without a position last", () => {
+    const history = buildEboardHistory([
+      member("a", { name: "Ada Lovelace", year: "2024-2025" }),
+      member("b", {
+        name: "Grace Hopper",
+        position: "President",
+        year: "2024-2025",
+      }),
+    ]);
+
+    expect(history.rosters[0].members).toEqual([
+      { personId: "grace-hopper", name: "Grace Hopper", position: "President" },
+      { personId: "ada-lovelace", name: "Ada Lovelace", position: "" },
+    ]);
+  });
+
+  it("filters by position past members without one", () => {
+    const history = buildEboardHistory(
+      [
+        member("a", { name: "Ada Lovelace", year: "2024-2025" }),
+        member("b", {
+          name: "Grace Hopper",
+          position: "Vice President",
+          year: "2024-2025",
+        }),
+      ],
+      { position: "VP" }
+    );
+
+    expect(history.people.map(person => person.name)).toEqual(["Grace Hopper"]);
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  getCurrentEboardMembers,
+  getPastEboardMembers,
+  type EboardMember,
+  type ReadOptions,
+} from "@/app/utils/contentful";
+import { academicYearStart } from "@/app/utils/dates";
+
+/** One person holding one position for one academic year */
+export interface EboardTerm {
+  /** The eboardMember entry this term comes from */
+  entryId: string;
+  personId: string;
+  name: string;
+  position: string;
+  /** Academic year such as "2024-2025"; null when the entry's year can't be read */
+  year: string | null;
+  memberType: "current" | "past";
+}
+
+export interface EboardPerson {
+  /**
+   * Same across years: the LinkedIn handle, else the name as a slug, else
+   * the entry ID for a member without a name
+   */
+  personId: string;
+  name: string;
+  linkedin?: string;
+  github?: string;
+  /** Oldest first */
+  terms: { year: string | null; position: string }[];
+}
+
+export interface EboardRoster {
+  year: string | null;
+  members: { personId: string; name: string; position: string }[];
+}
+
+export interface PositionTimeline {
+  position: string;
+  /** Oldest first */
+  holders: { year: string | null; personId: string; name: string }[];
+}
+
+export interface EboardHistory {
+  /** Newest first; terms without a readable year come last */
+  rosters: EboardRoster[];
+  positions: PositionTimeline[];
+  people: EboardPerson[];
+}
+
+export interface EboardHistoryFilter {
+  /** A calendar year ("2022") matches both academic years it overlaps */
+  year?: string;
+  /** Matched ignoring case and abbreviations, so "VP" finds "Vice President" */
+  position?: string;
+  /** Name, part of a name, personId or LinkedIn URL */
+  person?: string;
+}
+
+// Rosters list these first, in this order; other positions follow by name
+const POSITION_RANKS = [
+  "president",
+  "vice president",
+  "secretary",
+  "treasurer",
+];
+
+const ABBREVIATIONS: Record<string, string> = {
+  vp: "vice president",
+  evp: "executive vice president",
+  pr: "public relations",
+};
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const positionKey = (position: string) =>
+  normalize(position)
+    .split(" ")
+    .map(word => ABBREVIATIONS[word] ?? word)
+    .join(" ");
+
+/** The handle in a LinkedIn profile URL, which stays put when names change */
+function linkedinHandle(url?: string): string | undefined {
+  const match = url?.match(/linkedin\.com\/in\/([^/?#]+)/i);
+  return match ? decodeURIComponent(match[1]).toLowerCase() : undefined;
+}
+
+/**
+ * The first calendar year of an academic year written as "2024-2025",
+ * "2024-25", "2024/25" or just "2024".
+ */
+function yearStart(value?: string): number | null {
+  const match = value?.match(/(\d{4})(?:\s*[-–—/]\s*(\d{2}|\d{4}))?/);
+  return match ? Number(match[1]) : null;
+}
+
+const yearLabel = (start: number) => `${start}-${start + 1}`;
+
+function yearMatches(term: EboardTerm, filter: string): boolean {
+  const start = yearStart(term.year ?? undefined);
+  const wanted = yearStart(filter);
+  if (start === null || wanted === null) return false;
+  // A bare calendar year overlaps the academic years on either side of it
+  return /^\s*\d{4}\s*$/.test(filter)
+    ? start === wanted || start === wanted - 1
+    : start === wanted;
+}
+
+/** Members without a usable name only match themselves, by entry ID */
+function nameKey(member: EboardMember): string {
+  const name = normalize(member.fields.name ?? "");
+  return name ? `name:${name}` : `entry:${member.sys.id}`;
+}
+
+/** Groups entries into people: the same LinkedIn handle or name is one person */
+function identify(members: EboardMember[]): Map<EboardMember, string> {
+  const parent = members.map((_, index) => index);
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]));
+
+  const firstByKey = new Map<string, number>();
+  members.forEach((member, index) => {
+    const handle = linkedinHandle(member.fields.linkedin);
+    const keys = [nameKey(member), ...(handle ? [`linkedin:${handle}`] : [])];
+    for (const key of keys) {
+      const first = firstByKey.get(key);
+      if (first === undefined) firstByKey.set(key, index);
+      else parent[find(index)] = find(first);
+    }
+  });
+
+  const ids = new Map<number, string>();
+  members.forEach((member, index) => {
+    const root = find(index);
+    const handle = linkedinHandle(member.fields.linkedin);
+    // Prefer a LinkedIn handle from any of the person's entries
+    if (handle && !ids.get(root)?.startsWith("linkedin:")) {
+      ids.set(root, `linkedin:${handle}`);
+    } else if (!ids.has(root)) {
+      ids.set(root, nameKey(member));
+    }
+  });
+
+  return new Map(
+    members.map((member, index) => [
+      member,
+      ids.get(find(index))!.replace(/^\w+:/, "").replace(/ /g, "-"),
+    ])
+  );
+}
+
+const compareYears = (a: string | null, b: string | null) =>
+  (yearStart(a ?? undefined) ?? Infinity) -
+  (yearStart(b ?? undefined) ?? Infinity);
+
+function positionRank(position: string): number {
+  const rank = POSITION_RANKS.indexOf(positionKey(position));
+  return rank === -1 ? POSITION_RANKS.length : rank;
+}
+
+/**
+ * Rosters per academic year, who held each position over time and every
+ * person's terms, from eboardMember entries (one per person per year).
+ * Current members without a year count as this academic year.
+ */
+export function buildEboardHistory(
+  members: EboardMember[],
+  filter: EboardHistoryFilter = {},
+  now = new Date()
+): EboardHistory {
+  const personIds = identify(members);
+
+  const terms: EboardTerm[] = members.map(member => {
+    const start =
+      yearStart(member.fields.year) ??
+      (member.fields.memberType === "current" ? academicYearStart(now) : null);
+    return {
+      entryId: member.sys.id,
+      personId: personIds.get(member)!,
+      name: member.fields.name ?? "",
+      position: member.fields.position ?? "",
+      year: start === null ? null : yearLabel(start),
+      memberType: member.fields.memberType,
+    };
+  });
+
+  const people = new Map<string, EboardTerm[]>();
+  for (const term of terms) {
+    people.set(term.personId, [...(people.get(term.personId) ?? []), term]);
+  }
+
+  const personFilter = filter.person && normalize(filter.person);
+  const personHandle = linkedinHandle(filter.person);
+  const matchingPeople = new Set(
+    [...people.entries()]
+      .filter(
+        ([personId, personTerms]) =>
+          !personFilter ||
+          personId === personHandle ||
+          personId === personFilter.replace(/ /g, "-") ||
+          personTerms.some(term => normalize(term.name).includes(personFilter))
+      )
+      .map(([personId]) => personId)
+  );
+
+  const matching = terms
+    .filter(
+      term =>
+        matchingPeople.has(term.personId) &&
+        (!filter.year || yearMatches(term, filter.year)) &&
+        (!filter.position ||
+          positionKey(term.position) === positionKey(filter.position))
+    )
+    .sort(
+      (a, b) =>
+        compareYears(a.year, b.year) ||
+        positionRank(a.position) - positionRank(b.position) ||
+        a.position.localeCompare(b.position)
+    );
+
+  const group = <K>(key: (term: EboardTerm) => K) => {
+    const groups = new Map<K, EboardTerm[]>();
+    for (const term of matching) {
+      groups.set(key(term), [...(groups.get(key(term)) ?? []), term]);
+    }
+    return groups;
+  };
+
+  const rosters = [...group(term => term.year)]
+    .sort(([a], [b]) => compareYears(b, a))
+    // compareYears puts unknown years first when reversed
+    .sort(([a], [b]) => Number(a === null) - Number(b === null))
+    .map(([year, yearTerms]) => ({
+      year,
+      members: yearTerms.map(({ personId, name, position }) => ({
+        personId,
+        name,
+        position,
+      })),
+    }));
+
+  const positions = [...group(term => positionKey(term.position))]
+    .sort(
+      ([a, aTerms], [b, bTerms]) =>
+        positionRank(aTerms[0].position) - positionRank(bTerms[0].position) ||
+        a.localeCompare(b)
+    )
+    .map(([, positionTerms]) => ({
+      // The most recent title, e.g. "Vice President" rather than an old "VP"
+      position: positionTerms[positionTerms.length - 1].position,
+      holders: positionTerms.map(({ year, personId, name }) => ({
+        year,
+        personId,
+        name,
+      })),
+    }));
+
+  const peopleOutput = [...group(term => term.personId)]
+    .map(([personId, personTerms]) => {
+      const entries = members.filter(
+        member => personIds.get(member) === personId
+      );
+      const latest = personTerms[personTerms.length - 1];
+      return {
+        personId,
+        name: latest.name,
+        linkedin: entries.find(entry => entry.fields.linkedin)?.fields.linkedin,
+        github: entries.find(entry => entry.fields.github)?.fields.github,
+        terms: personTerms.map(({ year, position }) => ({ year, position })),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { rosters, positions, people: peopleOutput };
+}
+
+/** The e-board's history, current and past members alike. */
+export async function getEboardHistory(
+  filter: EboardHistoryFilter = {},
+  options: ReadOptions = {}
+): Promise<EboardHistory> {
+  const [current, past] = await Promise.all([
+    getCurrentEboardMembers(options),
+    getPastEboardMembers(options),
+  ]);
+  return buildEboardHistory([...current, ...past], filter);
+}
@@ -0,0 +1,147 @@
+import type {
+  ContentTypeDefinition,
+  ContentTypeField,
+  FieldValidation,
+} from "@/app/utils/management";
+
+// Contentful's own limits for short and long text fields
+const MAX_SYMBOL_LENGTH = 256;
+const MAX_TEXT_LENGTH = 50000;
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+const isLinkTo = (value: any, linkType?: string) =>
+  value?.sys?.type === "Link" && (!linkType || value.sys.linkType === linkType);
+
+/** Why `value` doesn't have the field's type, or undefined if it does. */
+function typeError(
+  type: string,
+  value: any,
+  linkType?: string
+): string | undefined {
+  switch (type) {
+    case "Symbol":
+      if (typeof value !== "string") return "must be text";
+      if (value.length > MAX_SYMBOL_LENGTH) {
+        return `must be at most ${MAX_SYMBOL_LENGTH} characters`;
+      }
+      return;
+    case "Text":
+      if (typeof value !== "string") return "must be text";
+      if (value.length > MAX_TEXT_LENGTH) {
+        return `must be at most ${MAX_TEXT_LENGTH} characters`;
+      }
+      return;
+    case "RichText":
+      return value?.nodeType === "document"
+        ? undefined
+        : "must be a rich text document";
+    case "Integer":
+      return Number.isInteger(value) ? undefined : "must be a whole number";
+    case "Number":
+      return Number.isFinite(value) ? undefined : "must be a number";
+    case "Date":
+      return typeof value === "string" && !isNaN(Date.parse(value))
+        ? undefined
+        : "must be an ISO 8601 date";
+    case "Boolean":
+      return typeof value === "boolean" ? undefined : "must be true or false";
+    case "Location":
+      return Number.isFinite(value?.lat) && Number.isFinite(value?.lon)
+        ? undefined
+        : "must have numeric lat and lon";
+    case "Object":
+      return value && typeof value === "object" && !Array.isArray(value)
+        ? undefined
+        : "must be an object";
+    case "Link":
+      return isLinkTo(value, linkType)
+        ? undefined
+        : `must be a link to an ${linkType ?? "entry or asset"}`;
+    default:
+      return;
+  }
+}
+
+/** Why `value` fails one of the field's validations, if it does. */
+function validationError(
+  validations: FieldValidation[] = [],
+  value: any
+): string | undefined {
+  for (const validation of validations) {
+    const { size, regexp } = validation;
+    let failure: string | undefined;
+
+    if (size && (typeof value === "string" || Array.isArray(value))) {
+      if (size.min !== undefined && value.length < size.min) {
+        failure = `must have at least ${size.min} ${typeof value === "string" ? "characters" : "items"}`;
+      } else if (size.max !== undefined && value.length > size.max) {
+        failure = `must have at most ${size.max} ${typeof value === "string" ? "characters" : "items"}`;
+      }
+    } else if (regexp && typeof value === "string") {
+      if (!new RegExp(regexp.pattern, regexp.flags).test(value)) {
+        failure = `must match ${regexp.pattern}`;
+      }
+    } else if (validation.in && !validation.in.includes(value)) {
+      failure = `must be one of ${validation.in.map(String).join(", ")}`;
+    }
+
+    // Content types can carry their own message for a validation
+    if (failure) return validation.message ?? failure;
+  }
+  return undefined;
+}
+
+function fieldErrors(field: ContentTypeField, value: any): string[] {
+  if (field.type === "Array") {
+    if (!Array.isArray(value)) return [`${field.name} must be a list`];
+    const listError = validationError(field.validations, value);
+    const itemErrors = value.flatMap((item, index) => {
+      const error =
+        typeError(field.items?.type ?? "", item, field.items?.linkType) ??
+        validationError(field.items?.validations, item);
+      return error ? [`${field.name} item ${index + 1} ${error}`] : [];
+    });
+    return [
+      ...(listError ? [`${field.name} ${listError}`] : []),
+      ...itemErrors,
+    ];
+  }
+
+  const error =
+    typeError(field.type, value, field.linkType) ??
+    validationError(field.validations, value);
+  return error ? [`${field.name} ${error}`] : [];
+}
+
+/**
+ * Checks unlocalized field values against a content type definition: unknown
+ * fields, required fields, field types and the size, regexp and `in`
+ * validations. Returns one message per problem; empty when the entry is
+ * valid. Uniqueness and link-target checks are left to Contentful.
+ */
+export function validateEntryFields(
+  contentType: ContentTypeDefinition,
+  fields: Record<string, unknown>
+): string[] {
+  const known = new Map(
+    contentType.fields
+      .filter(field => !field.disabled)
+      .map(field => [field.id, field])
+  );
+
+  const unknown = Object.keys(fields)
+    .filter(id => !known.has(id) && !isBlank(fields[id]))
+    .map(id => `Unknown field "${id}" for ${contentType.name}`);
+
+  const invalid = [...known.values()].flatMap(field => {
+    const value = fields[field.id];
+    if (isBlank(value)) {
+      return field.required ? [`${field.name} is required`] : [];
+    }
+    return fieldErrors(field, value);
+  });
+
+  return [...unknown, ...invalid];
+}
@@ -0,0 +1,422 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import type { EntrySkeletonType } from "contentful";
+import { z } from "zod";
+import type {
+  ContentSource,
+  EntryCollection,
+  EntryQuery,
+} from "@/app/utils/content-source";
+import type { Locale } from "@/app/utils/locales";
+import { Logger } from "@/app/utils/logger";
+
+const logger = new Logger("FixtureSource");
+
+// Contentful's defaults for the Delivery API
+const DEFAULT_LIMIT = 100;
+const DEFAULT_INCLUDE = 1;
+const MAX_INCLUDE = 10;
+
+// Items without sys.locale are in this one
+const DEFAULT_LOCALE = "en-US";
+
+const RESERVED_KEYS = new Set([
+  "content_type",
+  "order",
+  "limit",
+  "skip",
+  "include",
+  "locale",
+  "select",
+]);
+
+interface FixtureItem {
+  sys: {
+    id: string;
+    type: "Entry" | "Asset";
+    createdAt: string;
+    updatedAt: string;
+    contentType?: { sys: { id: string } };
+    [key: string]: unknown;
+  };
+  fields: Record<string, unknown>;
+}
+
+interface FixtureStore {
+  entries: FixtureItem[];
+  byId: Map<string, FixtureItem>;
+  /** Every item with its fields as maps of locale code to value */
+  allLocalesById: Map<string, FixtureItem>;
+  locales: string[];
+}
+
+const rawItemSchema = z
+  .object({
+    sys: z
+      .object({
+        id: z.string().min(1),
+        type: z.string().optional(),
+        createdAt: z.string().optional(),
+        updatedAt: z.string().optional(),
+        contentType: z.object({ sys: z.object({ id: z.string() }) }).optional(),
+      })
+      .passthrough(),
+    fields: z.record(z.unknown()),
+  })
+  .passthrough();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object";
+
+const isLink = (value: unknown): value is { sys: { id: string } } =>
+  isRecord(value) && isRecord(value.sys) && value.sys.type === "Link";
+
+const getPath = (item: FixtureItem, fieldPath: string): unknown =>
+  fieldPath
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (isRecord(value) ? value[key] : undefined),
+      item
+    );
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+/**
+ * A fixture file may hold a single entry or asset, an array of them, or a
+ * raw Delivery API response (`{ items, includes }`), so exports from
+ * `cdn.contentful.com` can be dropped in unchanged.
+ */
+function itemsFromFile(json: unknown): unknown[] {
+  if (Array.isArray(json)) return json;
+  if (isRecord(json) && Array.isArray(json.items)) {
+    const includes = isRecord(json.includes) ? json.includes : {};
+    return [
+      ...json.items,
+      ...asArray(includes.Entry),
+      ...asArray(includes.Asset),
+    ];
+  }
+  return [json];
+}
+
+function normalizeItem(value: unknown, file: string): FixtureItem {
+  const parsed = rawItemSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid fixture in ${file}: every item needs sys.id and fields`
+    );
+  }
+  const raw = parsed.data;
+
+  const type = raw.sys.type === "Asset" ? "Asset" : "Entry";
+  if (type === "Entry" && !raw.sys.contentType?.sys?.id) {
+    throw new Error(
+      `Invalid fixture "${raw.sys.id}" in ${file}: entries need sys.contentType.sys.id`
+    );
+  }
+
+  const createdAt = raw.sys.createdAt ?? new Date(0).toISOString();
+  return {
+    ...raw,
+    sys: {
+      ...raw.sys,
+      type,
+      createdAt,
+      updatedAt: raw.sys.updatedAt ?? createdAt,
+    },
+  };
+}
+
+async function findJsonFiles(dir: string): Promise<string[]> {
+  const dirents = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    dirents.map(dirent => {
+      const fullPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) return findJsonFiles(fullPath);
+      return Promise.resolve(dirent.name.endsWith(".json") ? [fullPath] : []);
+    })
+  );
+  return nested.flat().sort();
+}
+
+/**
+ * Merges each item's translations into its fields, the way the Delivery
+ * API answers `locale: "*"`.
+ */
+function withAllLocales(
+  byId: Map<string, FixtureItem>,
+  translations: Map<string, Map<string, FixtureItem["fields"]>>
+): Map<string, FixtureItem> {
+  return new Map(
+    [...byId].map(([id, item]) => {
+      const translated = [...(translations.get(id) ?? [])];
+      const fields = Object.fromEntries(
+        Object.entries(item.fields).map(([field, value]) => [
+          field,
+          Object.fromEntries([
+            [DEFAULT_LOCALE, value],
+            ...translated.flatMap(([locale, translatedFields]) =>
+              translatedFields[field] === undefined
+                ? []
+                : [[locale, translatedFields[field]]]
+            ),
+          ]),
+        ])
+      );
+      return [id, { ...item, fields }];
+    })
+  );
+}
+
+async function loadStore(dir: string, preview: boolean): Promise<FixtureStore> {
+  const root = path.resolve(process.cwd(), dir);
+  const files = await findJsonFiles(root);
+  const byId = new Map<string, FixtureItem>();
+  // Items with another sys.locale translate the item with the same ID
+  const translations = new Map<string, Map<string, FixtureItem["fields"]>>();
+  // Items with sys.preview are drafts, replacing any published version
+  const drafts: FixtureItem[] = [];
+
+  for (const file of files) {
+    const json = JSON.parse(await readFile(file, "utf8"));
+    for (const raw of itemsFromFile(json)) {
+      const item = normalizeItem(raw, path.relative(root, file));
+      const locale = item.sys.locale;
+      if (typeof locale === "string" && locale !== DEFAULT_LOCALE) {
+        if (!translations.has(item.sys.id)) {
+          translations.set(item.sys.id, new Map());
+        }
+        translations.get(item.sys.id)!.set(locale, item.fields);
+      } else if (item.sys.preview) {
+        if (preview) drafts.push(item);
+      } else {
+        byId.set(item.sys.id, item);
+      }
+    }
+  }
+  for (const draft of drafts) byId.set(draft.sys.id, draft);
+
+  const entries = [...byId.values()].filter(item => item.sys.type === "Entry");
+  const locales = [
+    ...new Set(
+      [...translations.values()].flatMap(byLocale => [...byLocale.keys()])
+    ),
+  ].sort();
+  logger.info("Loaded content fixtures", {
+    dir: root,
+    preview,
+    files: files.length,
+    entries: entries.length,
+    assets: byId.size - entries.length,
+    locales: [DEFAULT_LOCALE, ...locales],
+  });
+
+  return {
+    entries,
+    byId,
+    allLocalesById: withAllLocales(byId, translations),
+    locales,
+  };
+}
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+function displayName(code: string): string {
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Replaces link objects with the linked entry or asset, `depth` levels deep,
+ * mirroring the Delivery API's `include` parameter. Unresolvable links are
+ * left in place just like Contentful does.
+ */
+function resolveLinks(
+  value: unknown,
+  byId: Map<string, FixtureItem>,
+  depth: number
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveLinks(item, byId, depth));
+  }
+  if (!value || typeof value !== "object") return value;
+
+  if (isLink(value)) {
+    const target = byId.get(value.sys.id);
+    if (!target || depth <= 0) return value;
+    return {
+      ...target,
+      fields: resolveLinks(target.fields, byId, depth - 1),
+    };
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [
+      key,
+      resolveLinks(child, byId, depth),
+    ])
+  );
+}
+
+const comparable = (value: unknown): unknown => {
+  if (typeof value === "string" && !Number.isNaN(Date.parse(value))) {
+    return Date.parse(value);
+  }
+  return value;
+};
+
+function matchesFilter(
+  item: FixtureItem,
+  key: string,
+  expected: unknown
+): boolean {
+  const [, fieldPath, operator] = key.match(/^(.+?)(?:\[(\w+)\])?$/)!;
+  const actual = getPath(item, fieldPath);
+  const values = Array.isArray(actual) ? actual : [actual];
+  const list = String(expected).split(",");
+
+  switch (operator) {
+    case undefined:
+      return values.some(value => String(value) === String(expected));
+    case "ne":
+      return values.every(value => String(value) !== String(expected));
+    case "in":
+      return values.some(value => list.includes(String(value)));
+    case "nin":
+      return values.every(value => !list.includes(String(value)));
+    case "exists":
+      return (actual !== undefined) === (String(expected) === "true");
+    case "match":
+      return values.some(value =>
+        JSON.stringify(value ?? "")
+          .toLowerCase()
+          .includes(String(expected).toLowerCase())
+      );
+    case "lt":
+    case "lte":
+    case "gt":
+    case "gte": {
+      const a = comparable(actual) as number;
+      const b = comparable(expected) as number;
+      if (actual === undefined) return false;
+      if (operator === "lt") return a < b;
+      if (operator === "lte") return a <= b;
+      if (operator === "gt") return a > b;
+      return a >= b;
+    }
+    default:
+      throw new Error(`Unsupported fixture query operator "[${operator}]"`);
+  }
+}
+
+function compareBy(order: string[]) {
+  return (a: FixtureItem, b: FixtureItem): number => {
+    for (const spec of order) {
+      const descending = spec.startsWith("-");
+      const fieldPath = descending ? spec.slice(1) : spec;
+      const left = comparable(getPath(a, fieldPath)) as number;
+      const right = comparable(getPath(b, fieldPath)) as number;
+
+      if (left === right) continue;
+      // Entries missing the field sort last, as in Contentful
+      if (left === undefined) return 1;
+      if (right === undefined) return -1;
+
+      const result = left < right ? -1 : 1;
+      return descending ? -result : result;
+    }
+    return 0;
+  };
+}
+
+/**
+ * A content source that answers entry queries from a directory of JSON
+ * files, so every tool can run without network access or credentials.
+ * With `preview`, it includes drafts like the Preview API does.
+ */
+export function createFixtureSource(
+  dir: string,
+  options: { preview?: boolean } = {}
+): ContentSource {
+  let store: Promise<FixtureStore> | undefined;
+
+  const getStore = () =>
+    (store ??= loadStore(dir, options.preview ?? false).catch(error => {
+      // Allow a retry once the fixtures have been fixed
+      store = undefined;
+      throw error;
+    }));
+
+  return {
+    name: "fixtures",
+    async getEntries<T extends EntrySkeletonType>(query: EntryQuery) {
+      const { entries, byId, allLocalesById } = await getStore();
+
+      const filters = Object.entries(query).filter(
+        ([key]) => !RESERVED_KEYS.has(key)
+      );
+      const matching = entries
+        .filter(
+          item =>
+            item.sys.contentType?.sys.id === query.content_type &&
+            filters.every(([key, expected]) =>
+              matchesFilter(item, key, expected)
+            )
+        )
+        .sort(compareBy(query.order ?? ["sys.createdAt"]));
+
+      const skip = query.skip ?? 0;
+      const limit = query.limit ?? DEFAULT_LIMIT;
+      const include = Math.min(query.include ?? DEFAULT_INCLUDE, MAX_INCLUDE);
+
+      // Filters and ordering apply to the default locale, as in Contentful
+      const source = query.locale === "*" ? allLocalesById : byId;
+      const items = matching.slice(skip, skip + limit).map(item => {
+        const localized = source.get(item.sys.id)!;
+        return {
+          ...localized,
+          fields: resolveLinks(localized.fields, source, include),
+        };
+      });
+
+      return {
+        items,
+        total: matching.length,
+        skip,
+        limit,
+      } as unknown as EntryCollection<T>;
+    },
+    async getAsset<T>(id: string) {
+      const { byId } = await getStore();
+      const item = byId.get(id);
+      return (item?.sys.type === "Asset" ? item : null) as T | null;
+    },
+    async getContentTypeIds() {
+      const { entries } = await getStore();
+      return [
+        ...new Set(entries.flatMap(item => item.sys.contentType?.sys.id ?? [])),
+      ];
+    },
+    async getLocales(): Promise<Locale[]> {
+      const { locales } = await getStore();
+      return [
+        {
+          code: DEFAULT_LOCALE,
+          name: displayName(DEFAULT_LOCALE),
+          default: true,
+          fallbackCode: null,
+        },
+        ...locales.map(code => ({
+          code,
+          name: displayName(code),
+          default: false,
+          fallbackCode: DEFAULT_LOCALE,
+        })),
+      ];
+    },
+  };
+}
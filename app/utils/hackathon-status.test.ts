@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { Hackathon } from "@/app/utils/contentful";
+import { getHackathonTiming } from "@/app/utils/hackathon-status";
+
+const timeZone = "America/New_York";
+
+const hackathon = (
+  fields: Pick<Hackathon["fields"], "startDate" | "endDate" | "status">
+): Hackathon => ({
+  sys: { id: "hack-1", updatedAt: "2026-01-01T00:00:00Z" },
+  contentTypeId: "hackathon",
+  fields: {
+    title: "HackNight",
+    description: "",
+    image: { fields: { file: { url: "//images.ctfassets.net/hack.png" } } },
+    ...fields,
+  },
+});
+
+const timing = (fields: Parameters<typeof hackathon>[0], now: string) =>
+  getHackathonTiming(hackathon(fields), new Date(now), timeZone);
+
+describe("getHackathonTiming", () => {
+  const weekend = { startDate: "2026-04-10", endDate: "2026-04-12" };
+
+  it("counts calendar days until an upcoming hackathon", () => {
+    // 11pm on April 8, local time: the start is two days away
+    expect(timing(weekend, "2026-04-09T03:00:00Z")).toMatchObject({
+      status: "upcoming",
+      statusSource: "computed",
+      daysUntilStart: 2,
+      daysRemaining: null,
+    });
+  });
+
+  it("runs through the whole of a bare end date", () => {
+    // 11pm on April 12, local time
+    expect(timing(weekend, "2026-04-13T03:00:00Z")).toMatchObject({
+      status: "ongoing",
+      daysRemaining: 0,
+    });
+    expect(timing(weekend, "2026-04-13T04:00:00Z").status).toBe("past");
+  });
+
+  it("ends a hackathon without an end date with its first day", () => {
+    const oneDay = { startDate: "2026-04-10T18:00:00-04:00" };
+
+    expect(timing(oneDay, "2026-04-10T23:00:00Z").status).toBe("ongoing");
+    expect(timing(oneDay, "2026-04-11T04:00:00Z").status).toBe("past");
+  });
+
+  it("prefers the status set in Contentful but still reports the computed one", () => {
+    expect(
+      timing({ ...weekend, status: "past" }, "2026-04-11T12:00:00Z")
+    ).toMatchObject({
+      status: "past",
+      statusSource: "override",
+      computedStatus: "ongoing",
+      daysRemaining: 1,
+    });
+  });
+
+  it("has no status without dates", () => {
+    expect(timing({}, "2026-04-11T12:00:00Z")).toMatchObject({
+      status: null,
+      computedStatus: null,
+      daysUntilStart: null,
+    });
+  });
+});
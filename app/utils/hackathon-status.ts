@@ -0,0 +1,64 @@
+import type { Hackathon } from "@/app/utils/contentful";
+import {
+  daysBetween,
+  endOfDay,
+  parseDate,
+  parseEndDate,
+} from "@/app/utils/dates";
+import { env } from "@/config/env";
+
+export type HackathonStatus = "ongoing" | "upcoming" | "past";
+
+export interface HackathonTiming {
+  /** Effective status: the stored override if set, otherwise computed */
+  status: HackathonStatus | null;
+  /** "override" when the entry's `status` field was set in Contentful */
+  statusSource: "computed" | "override";
+  /** Status implied by the dates alone; null when the entry has no dates */
+  computedStatus: HackathonStatus | null;
+  /** Calendar days until the start date, while it's in the future */
+  daysUntilStart: number | null;
+  /** Calendar days until the end date, while the hackathon is running */
+  daysRemaining: number | null;
+}
+
+/**
+ * Works out where a hackathon is in its lifecycle from `startDate` and
+ * `endDate` in the club timezone. A bare `endDate` includes that whole day,
+ * and a hackathon without one runs until the end of the day it starts.
+ */
+export function getHackathonTiming(
+  hackathon: Hackathon,
+  now = new Date(),
+  timeZone = env.CLUB_TIMEZONE
+): HackathonTiming {
+  const start = parseDate(hackathon.fields.startDate, timeZone);
+  const end =
+    parseEndDate(hackathon.fields.endDate, timeZone) ??
+    (start && endOfDay(start, timeZone));
+  const begins = start ?? end;
+
+  let computedStatus: HackathonStatus | null = null;
+  if (begins && end) {
+    if (now < begins) computedStatus = "upcoming";
+    else if (now < end) computedStatus = "ongoing";
+    else computedStatus = "past";
+  }
+
+  const override = hackathon.fields.status;
+
+  return {
+    status: override ?? computedStatus,
+    statusSource: override ? "override" : "computed",
+    computedStatus,
+    daysUntilStart:
+      computedStatus === "upcoming"
+        ? daysBetween(now, begins!, timeZone)
+        : null,
+    // Counted to the last moment before `end`, so 0 on a hackathon's last day
+    daysRemaining:
+      computedStatus === "ongoing"
+        ? daysBetween(now, new Date(end!.getTime() - 1), timeZone)
+        : null,
+  };
+}
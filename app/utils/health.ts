@@ -0,0 +1,156 @@
+import { createClient } from "redis";
+import { env } from "@/config/env";
+import { contentSource } from "@/app/utils/content-source";
+import { SEARCHABLE_CONTENT_TYPES } from "@/app/utils/search";
+
+const CHECK_TIMEOUT_MS = 5000;
+const REDIS_CONNECT_TIMEOUT_MS = 2000;
+
+// Every tool and resource reads one of these
+const REQUIRED_CONTENT_TYPES: readonly string[] = SEARCHABLE_CONTENT_TYPES;
+
+/**
+ * "down" means tools can't work; "degraded" means they work with a fallback,
+ * such as the in-memory cache when Redis is unreachable.
+ */
+export type CheckStatus = "ok" | "degraded" | "down";
+
+export interface CheckResult {
+  status: CheckStatus;
+  latencyMs: number;
+  message?: string;
+  [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+  status: CheckStatus;
+  checkedAt: string;
+  contentSource: string;
+  checks: {
+    contentful: CheckResult;
+    contentTypes: CheckResult;
+    redis: CheckResult;
+  };
+}
+
+const STATUS_ORDER: CheckStatus[] = ["ok", "degraded", "down"];
+
+const worst = (statuses: CheckStatus[]): CheckStatus =>
+  STATUS_ORDER[
+    Math.max(...statuses.map(status => STATUS_ORDER.indexOf(status)))
+  ];
+
+const describe = (error: unknown) =>
+  // SDK errors can carry a whole JSON request dump; the first line is enough
+  (error instanceof Error ? error.message : String(error))
+    .split("\n")[0]
+    .slice(0, 300);
+
+function withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${what} timed out after ${CHECK_TIMEOUT_MS}ms`)),
+      CHECK_TIMEOUT_MS
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function timed(
+  check: () => Promise<{ status: CheckStatus; message?: string }>
+): Promise<CheckResult> {
+  const started = performance.now();
+  const result = await check();
+  return { ...result, latencyMs: Math.round(performance.now() - started) };
+}
+
+/** Pings Redis on a connection of its own, so a stuck shared client can't hide. */
+async function checkRedis(): Promise<CheckResult> {
+  if (!env.REDIS_URL) {
+    return {
+      status: "degraded",
+      latencyMs: 0,
+      message:
+        "REDIS_URL not set: SSE transport unavailable, cache and rate limits are per instance",
+    };
+  }
+
+  return timed(async () => {
+    const client = createClient({
+      url: env.REDIS_URL,
+      socket: {
+        connectTimeout: REDIS_CONNECT_TIMEOUT_MS,
+        reconnectStrategy: false,
+      },
+    });
+    // Failures surface through connect() and ping(); don't crash on the event
+    client.on("error", () => {});
+    try {
+      await withTimeout(client.connect(), "Redis connect");
+      await withTimeout(client.ping(), "Redis ping");
+      return { status: "ok" };
+    } catch (error) {
+      return {
+        status: "degraded",
+        message: `Redis unreachable, falling back to memory: ${describe(error)}`,
+      };
+    } finally {
+      if (client.isOpen) await client.quit().catch(() => undefined);
+    }
+  });
+}
+
+/**
+ * Checks that content can be read: the source accepts our credentials and
+ * has every content type the tools query, and Redis is reachable.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const started = performance.now();
+  const contentTypes = withTimeout(
+    contentSource.getContentTypeIds(),
+    "Content type lookup"
+  );
+
+  const [contentful, redis] = await Promise.all([
+    timed(async () => {
+      try {
+        await contentTypes;
+        return { status: "ok" };
+      } catch (error) {
+        return { status: "down", message: describe(error) };
+      }
+    }),
+    checkRedis(),
+  ]);
+
+  // Shares the lookup above, so it has the same latency
+  let contentTypesCheck: CheckResult;
+  try {
+    const available = new Set(await contentTypes);
+    const missing = REQUIRED_CONTENT_TYPES.filter(id => !available.has(id));
+    contentTypesCheck = {
+      status: missing.length ? "down" : "ok",
+      latencyMs: contentful.latencyMs,
+      required: REQUIRED_CONTENT_TYPES,
+      ...(missing.length && {
+        missing,
+        message: `Missing content types: ${missing.join(", ")}`,
+      }),
+    };
+  } catch {
+    contentTypesCheck = {
+      status: "down",
+      latencyMs: Math.round(performance.now() - started),
+      message: "Skipped: content source unavailable",
+    };
+  }
+
+  const checks = { contentful, contentTypes: contentTypesCheck, redis };
+  return {
+    status: worst(Object.values(checks).map(check => check.status)),
+    checkedAt: new Date().toISOString(),
+    contentSource: contentSource.name,
+    checks,
+  };
+}
@@ -0,0 +1,82 @@
+import { readFile } from "fs/promises";
+import { describe, expect, it } from "vitest";
+import type { ImageAsset } from "@/app/utils/contentful";
+import {
+  createFixtureImageFetcher,
+  createImageLoader,
+  type ImageFetcher,
+} from "@/app/utils/image-data";
+
+const fixtureAsset = (fileName: string, contentType: string): ImageAsset => ({
+  sys: { id: `asset-${fileName}` },
+  fields: {
+    title: fileName,
+    file: {
+      url: `//images.ctfassets.net/sjuacm0fixture/asset/0f1e/${fileName}`,
+      fileName,
+      contentType,
+    },
+  },
+});
+
+const hero = fixtureAsset("hero.png", "image/png");
+const fixtures = createFixtureImageFetcher("fixtures");
+
+describe("createImageLoader", () => {
+  it("returns fixture files as base64 image content", async () => {
+    const file = await readFile("fixtures/files/hero.png");
+
+    const { image, content } = await createImageLoader(fixtures).load(hero);
+
+    expect(content).toEqual({
+      type: "image",
+      data: file.toString("base64"),
+      mimeType: "image/png",
+    });
+    expect(image.bytes).toBe(file.length);
+    expect(image.url).toContain("w=1024");
+  });
+
+  it("rejects images whose content-length is over the limit", async () => {
+    const loader = createImageLoader(fixtures, 1000);
+
+    await expect(loader.load(hero)).rejects.toThrow(
+      /is 1284 bytes, over the 1000 byte limit/
+    );
+  });
+
+  it("stops reading a body without content-length once over the limit", async () => {
+    let chunksRead = 0;
+    const endless: ImageFetcher = async () =>
+      new Response(
+        new ReadableStream({
+          pull(controller) {
+            chunksRead++;
+            controller.enqueue(new Uint8Array(512));
+          },
+        }),
+        { headers: { "content-type": "image/png" } }
+      );
+
+    await expect(createImageLoader(endless, 1000).load(hero)).rejects.toThrow(
+      /over the 1000 byte limit/
+    );
+    expect(chunksRead).toBeLessThan(5);
+  });
+
+  it("rejects formats clients can't show", async () => {
+    const logo = fixtureAsset("logo.svg", "image/svg+xml");
+
+    await expect(createImageLoader(fixtures).load(logo)).rejects.toThrow(
+      "image/svg+xml can't be returned as an image"
+    );
+  });
+
+  it("reports fixture files that don't exist", async () => {
+    const missing = fixtureAsset("missing.png", "image/png");
+
+    await expect(createImageLoader(fixtures).load(missing)).rejects.toThrow(
+      "Fetching the image failed with 404"
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type {
+  ImageContent,
+  TextContent,
+} from "@modelcontextprotocol/sdk/types.js";
+import { env } from "@/config/env";
+import type { ImageAsset } from "@/app/utils/contentful";
+import {
+  describeImage,
+  type ImageOutput,
+  type ImageTransform,
+} from "@/app/utils/images";
+
+/** Same contract as fetch(), so tests can answer with canned Responses */
+export type ImageFetcher = (
+  url: string,
+  init: { signal: AbortSignal }
+) => Promise<Response>;
+
+// What MCP clients, and the models behind them, accept as image content
+const SUPPORTED_MIME_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+]);
+const SUPPORTED_FORMATS = new Set(["jpg", "png", "gif", "webp"]);
+
+// Enough to see detail without bloating responses
+const DEFAULT_MAX_WIDTH = 1024;
+export const MAX_IMAGE_BYTES = 1024 * 1024;
+/** Images a tool response carries at most when including image data */
+export const MAX_IMAGES_PER_RESPONSE = 5;
+const FETCH_TIMEOUT_MS = 10_000;
+
+export interface LoadedImage {
+  image: ImageOutput & { bytes: number };
+  content: ImageContent;
+}
+
+export interface ImageLoader {
+  /**
+   * Fetches `asset` as image content. Without a size in `transform` it is
+   * downscaled to 1024 pixels wide; formats clients can't show (avif) are
+   * ignored. Throws if the image can't be fetched or is over the size limit.
+   */
+  load(asset: ImageAsset, transform?: ImageTransform): Promise<LoadedImage>;
+}
+
+const mimeTypeOf = (response: Response) =>
+  response.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+
+/**
+ * Reads `response`'s body, or undefined as soon as it passes `maxBytes`, so
+ * a missing or wrong content-length can't make it buffer a huge file.
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number
+): Promise<Buffer | undefined> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks, length);
+    length += value.byteLength;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+}
+
+export function createImageLoader(
+  fetcher: ImageFetcher,
+  maxBytes = MAX_IMAGE_BYTES
+): ImageLoader {
+  const tooLarge = (bytes?: number) =>
+    new Error(
+      `Image is ${bytes === undefined ? "over" : `${bytes} bytes, over`} the ${maxBytes} byte limit; request a smaller width or lower quality`
+    );
+
+  return {
+    async load(asset, transform = {}) {
+      // A srcSet is no use here; one image is fetched
+      const requested = { ...transform, widths: undefined };
+      const originalWidth = asset.fields?.file?.details?.image?.width;
+      const sized =
+        requested.width || requested.height
+          ? requested
+          : {
+              ...requested,
+              ...((!originalWidth || originalWidth > DEFAULT_MAX_WIDTH) && {
+                width: DEFAULT_MAX_WIDTH,
+              }),
+            };
+      const image = describeImage(asset, {
+        ...sized,
+        format:
+          sized.format && SUPPORTED_FORMATS.has(sized.format)
+            ? sized.format
+            : undefined,
+      });
+      if (!image) throw new Error("Asset has no file");
+      if (image.contentType && !SUPPORTED_MIME_TYPES.has(image.contentType)) {
+        throw new Error(`${image.contentType} can't be returned as an image`);
+      }
+
+      const response = await fetcher(image.url, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Fetching the image failed with ${response.status}`);
+      }
+      const mimeType = mimeTypeOf(response) ?? image.contentType;
+      if (!mimeType || !SUPPORTED_MIME_TYPES.has(mimeType)) {
+        throw new Error(`${mimeType} can't be returned as an image`);
+      }
+
+      const declared = Number(response.headers.get("content-length"));
+      if (declared > maxBytes) throw tooLarge(declared);
+      const data = await readBody(response, maxBytes);
+      if (!data) throw tooLarge();
+
+      return {
+        image: { ...image, contentType: mimeType, bytes: data.length },
+        content: { type: "image", data: data.toString("base64"), mimeType },
+      };
+    },
+  };
+}
+
+const FIXTURE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+/**
+ * Answers asset URLs with `<dir>/files/<file name>`, so images work
+ * offline. Transformations are ignored: files are served as they are.
+ */
+export function createFixtureImageFetcher(dir: string): ImageFetcher {
+  const root = path.resolve(process.cwd(), dir, "files");
+
+  return async url => {
+    // basename() also keeps lookups inside the directory
+    const fileName = path.basename(decodeURIComponent(new URL(url).pathname));
+    try {
+      const data = await readFile(path.join(root, fileName));
+      return new Response(data, {
+        headers: {
+          "content-type":
+            FIXTURE_MIME_TYPES[path.extname(fileName).toLowerCase()] ??
+            "application/octet-stream",
+          "content-length": String(data.length),
+        },
+      });
+    } catch {
+      return new Response(null, { status: 404 });
+    }
+  };
+}
+
+export const imageLoader = createImageLoader(
+  env.CONTENT_SOURCE === "fixtures"
+    ? createFixtureImageFetcher(env.CONTENT_FIXTURES_DIR)
+    : fetch
+);
+
+type ContentBlock = ImageContent | TextContent;
+
+/**
+ * Image content for each of `images`, up to MAX_IMAGES_PER_RESPONSE. Images
+ * that can't be loaded get a text block saying why instead.
+ */
+export async function imageBlocks(
+  images: { label: string; asset: ImageAsset | undefined }[],
+  transform?: ImageTransform
+): Promise<ContentBlock[]> {
+  const blocks = await Promise.all(
+    images
+      .slice(0, MAX_IMAGES_PER_RESPONSE)
+      .map(async ({ label, asset }): Promise<ContentBlock> => {
+        if (!asset) return { type: "text", text: `"${label}" has no image` };
+        try {
+          return (await imageLoader.load(asset, transform)).content;
+        } catch (error) {
+          return {
+            type: "text",
+            text: `Image for "${label}" unavailable: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
+      })
+  );
+
+  if (images.length > MAX_IMAGES_PER_RESPONSE) {
+    blocks.push({
+      type: "text",
+      text: `Image data is only included for the first ${MAX_IMAGES_PER_RESPONSE} images; page through the rest with limit and cursor`,
+    });
+  }
+  return blocks;
+}
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import type { ImageAsset } from "@/app/utils/contentful";
+
+// Only files served from here can be transformed by the Images API
+const IMAGES_API_HOST = "images.ctfassets.net";
+const MAX_DIMENSION = 4000;
+
+export const IMAGE_FITS = ["pad", "fill", "scale", "crop", "thumb"] as const;
+export const IMAGE_FORMATS = ["jpg", "png", "webp", "gif", "avif"] as const;
+
+const dimension = z.number().int().min(1).max(MAX_DIMENSION);
+
+/** Images API transformations of a single image, as tool parameters */
+export const imageTransformParams = {
+  width: dimension.optional().describe("Width in pixels, up to 4000"),
+  height: dimension.optional().describe("Height in pixels, up to 4000"),
+  fit: z
+    .enum(IMAGE_FITS)
+    .optional()
+    .describe(
+      "How to fit width and height: pad, fill (crop to fill), scale (stretch), crop or thumb"
+    ),
+  format: z
+    .enum(IMAGE_FORMATS)
+    .optional()
+    .describe("Convert to this format, e.g. webp or avif"),
+  quality: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Compression quality from 1 to 100 (jpg, webp and avif)"),
+};
+
+const imageTransformSchema = z
+  .object({
+    ...imageTransformParams,
+    widths: z
+      .array(dimension)
+      .optional()
+      .describe("Widths for a responsive srcSet, e.g. [480, 960, 1920]"),
+  })
+  .refine(
+    transform => !transform.fit || transform.width || transform.height,
+    "fit needs a width or height"
+  );
+
+export type ImageTransform = z.infer<typeof imageTransformSchema>;
+
+/** Shared `images` parameter for the tools that return images */
+export const imageParams = {
+  images: imageTransformSchema
+    .optional()
+    .describe(
+      "Contentful Images API transformations applied to every image in the response"
+    ),
+};
+
+export interface ImageOutput {
+  /** Pass to get-image to see the image itself */
+  assetId?: string;
+  /** Absolute https URL, with the transformations applied */
+  url: string;
+  /** Size of the image at `url`, when known */
+  width?: number;
+  height?: number;
+  alt: string;
+  contentType?: string;
+  /** `url 480w, ...` for each of the requested `widths` */
+  srcSet?: string;
+}
+
+// Contentful returns protocol-relative asset URLs ("//images.ctfassets.net/...")
+export const toAbsoluteUrl = (url: string): string =>
+  url.startsWith("//") ? `https:${url}` : url;
+
+// The Images API can't transform vector images
+const isTransformable = (url: URL, contentType?: string) =>
+  url.hostname === IMAGES_API_HOST &&
+  (!contentType ||
+    (contentType.startsWith("image/") && contentType !== "image/svg+xml"));
+
+/**
+ * The Images API URL for `url` with `transform` applied. Files the API can't
+ * transform are returned as absolute URLs without parameters.
+ */
+export function imageUrl(
+  url: string,
+  transform: ImageTransform = {},
+  contentType?: string
+): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(toAbsoluteUrl(url));
+  } catch {
+    return toAbsoluteUrl(url);
+  }
+  if (!isTransformable(parsed, contentType)) return parsed.href;
+
+  const { width, height, fit, format, quality } = transform;
+  if (width) parsed.searchParams.set("w", String(width));
+  if (height) parsed.searchParams.set("h", String(height));
+  if (fit) parsed.searchParams.set("fit", fit);
+  if (format) parsed.searchParams.set("fm", format);
+  if (quality) parsed.searchParams.set("q", String(quality));
+  return parsed.href;
+}
+
+/**
+ * The size the Images API renders: exactly width x height with a fit mode,
+ * otherwise scaled to fit within them keeping the aspect ratio.
+ */
+function outputSize(
+  original: { width: number; height: number } | undefined,
+  { width, height, fit }: ImageTransform
+): { width?: number; height?: number } {
+  if (width && height && fit) return { width, height };
+  if (!original) return { width, height };
+  if (!width && !height) return original;
+
+  const scale = Math.min(
+    width ? width / original.width : Infinity,
+    height ? height / original.height : Infinity
+  );
+  return {
+    width: Math.round(original.width * scale),
+    height: Math.round(original.height * scale),
+  };
+}
+
+const FORMAT_CONTENT_TYPES: Record<(typeof IMAGE_FORMATS)[number], string> = {
+  jpg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+/**
+ * An image asset as tools return it: absolute URL, dimensions, alt text
+ * and content type, with `transform` applied. Null for missing assets and
+ * links that weren't resolved.
+ */
+export function describeImage(
+  asset: ImageAsset | undefined,
+  transform: ImageTransform = {}
+): ImageOutput | null {
+  const file = asset?.fields?.file;
+  if (!file?.url) return null;
+
+  const alt = asset?.fields.description || asset?.fields.title || "";
+  const original = file.details?.image;
+  const absolute = toAbsoluteUrl(file.url);
+  const transformable = (() => {
+    try {
+      return isTransformable(new URL(absolute), file.contentType);
+    } catch {
+      return false;
+    }
+  })();
+
+  if (!transformable) {
+    return {
+      assetId: asset?.sys?.id,
+      url: absolute,
+      ...original,
+      alt,
+      contentType: file.contentType,
+    };
+  }
+
+  const { widths, ...single } = transform;
+  return {
+    assetId: asset?.sys?.id,
+    url: imageUrl(file.url, single, file.contentType),
+    ...outputSize(original, single),
+    alt,
+    contentType: single.format
+      ? FORMAT_CONTENT_TYPES[single.format]
+      : file.contentType,
+    ...(widths?.length && {
+      srcSet: [...widths]
+        .sort((a, b) => a - b)
+        .map(width => {
+          // Keep the requested aspect ratio at every width
+          const height =
+            single.width && single.height
+              ? Math.round((single.height * width) / single.width)
+              : undefined;
+          const url = imageUrl(
+            file.url,
+            { ...single, width, height },
+            file.contentType
+          );
+          return `${url} ${width}w`;
+        })
+        .join(", "),
+    }),
+  };
+}
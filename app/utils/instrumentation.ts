@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  Logger,
+  sessionLogId,
+  withFreshLogContext,
+  withLogContext,
+} from "@/app/utils/logger";
+import { mcpCallDuration, mcpCalls } from "@/app/utils/metrics";
+
+const logger = new Logger("MCP");
+
+type Kind = "tool" | "resource" | "prompt";
+
+const KINDS = new Set<string>(["tool", "resource", "prompt"]);
+
+/** A tool, resource or prompt callback, whatever arguments it takes */
+type Callback = (...args: unknown[]) => unknown;
+
+const isCallback = (value: unknown): value is Callback =>
+  typeof value === "function";
+
+/** The session ID the SDK passes as the last argument to every callback. */
+const sessionIdOf = (args: unknown[]): string | undefined =>
+  (args[args.length - 1] as { sessionId?: string } | undefined)?.sessionId;
+
+function instrument(kind: Kind, name: string, callback: Callback): Callback {
+  return (...args) => {
+    const sessionId = sessionIdOf(args);
+    const run = async () => {
+      const started = performance.now();
+      const finish = (outcome: "success" | "error" | "exception") => {
+        const seconds = (performance.now() - started) / 1000;
+        mcpCalls.inc({ kind, name, outcome });
+        mcpCallDuration.observe({ kind, name }, seconds);
+        return Math.round(seconds * 1000);
+      };
+
+      try {
+        const result = await callback(...args);
+        const isError = (result as { isError?: boolean })?.isError === true;
+        const durationMs = finish(isError ? "error" : "success");
+        logger[isError ? "warn" : "info"](`Completed ${kind} call`, {
+          durationMs,
+          ...(isError && { isError }),
+        });
+        return result;
+      } catch (error) {
+        logger.error(`Failed ${kind} call`, error, {
+          durationMs: finish("exception"),
+        });
+        throw error;
+      }
+    };
+
+    // SSE messages arrive through Redis, outside the HTTP request that
+    // carried them, so they get their own context keyed by session
+    return sessionId
+      ? withFreshLogContext(
+          {
+            requestId: randomUUID(),
+            sessionId: sessionLogId(sessionId),
+            [kind]: name,
+          },
+          run
+        )
+      : withLogContext({ [kind]: name }, run);
+  };
+}
+
+/**
+ * Wraps `server` so every tool, resource and prompt callback logs its
+ * duration and outcome with the tool name in the log context, and records
+ * them in the call metrics.
+ */
+export function instrumentServer(server: McpServer): McpServer {
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== "string" || !KINDS.has(property)) return value;
+
+      return (name: string, ...rest: unknown[]) => {
+        const callback = rest.pop();
+        return value.call(
+          target,
+          name,
+          ...rest,
+          isCallback(callback)
+            ? instrument(property as Kind, name, callback)
+            : callback
+        );
+      };
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+type JsonSchema = Record<string, unknown>;
+
+const withDescription = (schema: z.ZodTypeAny, json: JsonSchema) =>
+  schema.description ? { ...json, description: schema.description } : json;
+
+/**
+ * The JSON Schema for a Zod schema, as MCP clients expect for `outputSchema`.
+ * Covers the Zod types the tool outputs use; anything else becomes `{}`,
+ * which accepts any value.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return withDescription(schema, convert(schema));
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return toJsonSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema._def.schema);
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap()), { type: "null" }] };
+  }
+
+  if (schema instanceof z.ZodString) return { type: "string" };
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number" };
+  }
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: toJsonSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: toJsonSchema(schema.valueSchema),
+    };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+      ),
+      ...(required.length && { required }),
+    };
+  }
+  if (
+    schema instanceof z.ZodUnion ||
+    schema instanceof z.ZodDiscriminatedUnion
+  ) {
+    return {
+      anyOf: (schema.options as z.ZodTypeAny[]).map(option =>
+        toJsonSchema(option)
+      ),
+    };
+  }
+
+  return {};
+}
@@ -0,0 +1,108 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Listener = (...args: unknown[]) => void;
+
+// Stand-ins for node-redis clients, in the order createClient hands them out
+const clients: FakeClient[] = [];
+
+class FakeClient {
+  isOpen = false;
+  listeners = new Map<string, Listener[]>();
+  subscribe = vi.fn(async () => {});
+
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  async connect() {
+    this.isOpen = true;
+  }
+
+  /** Gives up the connection the way node-redis does after its last retry */
+  end() {
+    this.isOpen = false;
+    this.listeners.get("end")?.forEach(listener => listener());
+  }
+}
+
+vi.mock("redis", () => ({
+  createClient: () => {
+    const client = new FakeClient();
+    clients.push(client);
+    return client;
+  },
+}));
+
+const newServer = () => new McpServer({ name: "test", version: "1.0.0" });
+
+beforeEach(() => {
+  clients.length = 0;
+  vi.stubEnv("REDIS_URL", "redis://test");
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("trackServer", () => {
+  it("subscribes again after Redis drops the subscriber", async () => {
+    const { trackServer } = await import("@/app/utils/live-updates");
+
+    trackServer(newServer());
+    await vi.waitFor(() => expect(clients[0]?.subscribe).toHaveBeenCalled());
+
+    // Later servers share the subscription
+    trackServer(newServer());
+    await Promise.resolve();
+    expect(clients).toHaveLength(1);
+
+    clients[0].end();
+    trackServer(newServer());
+    await vi.waitFor(() => expect(clients[1]?.subscribe).toHaveBeenCalled());
+  });
+});
+
+describe("affectedUris", () => {
+  it("includes the post's slug URI and the activity report for blog posts", async () => {
+    const { affectedUris } = await import("@/app/utils/live-updates");
+
+    expect(affectedUris("blogPost", "post-1", "intro-to-git")).toEqual([
+      "contentful://stats/overview",
+      "contentful://blogPost/post-1",
+      "contentful://stats/activity",
+      "contentful://blogPost/intro-to-git",
+    ]);
+  });
+
+  it("includes the calendar and activity report for meetings", async () => {
+    const { affectedUris } = await import("@/app/utils/live-updates");
+
+    expect(affectedUris("meeting", "meeting-1")).toEqual([
+      "contentful://stats/overview",
+      "contentful://meeting/meeting-1",
+      "contentful://calendar/events.ics",
+      "contentful://stats/activity",
+    ]);
+  });
+
+  it("includes the eboard history for eboard members", async () => {
+    const { affectedUris } = await import("@/app/utils/live-updates");
+
+    expect(affectedUris("eboardMember", "member-1")).toEqual([
+      "contentful://stats/overview",
+      "contentful://eboardMember/member-1",
+      "contentful://eboard/history",
+    ]);
+  });
+
+  it("only includes the overview for assets", async () => {
+    const { affectedUris } = await import("@/app/utils/live-updates");
+
+    expect(affectedUris(undefined, "asset-1")).toEqual([
+      "contentful://stats/overview",
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { env } from "@/config/env";
+import { Logger } from "@/app/utils/logger";
+import { redisConnection } from "@/app/utils/redis";
+import { invalidateCache } from "@/app/utils/cache";
+import { resetSearchIndex } from "@/app/utils/search";
+
+const logger = new Logger("LiveUpdates");
+
+const CHANNEL = "contentful:updates";
+
+export interface ContentUpdate {
+  /** Webhook topic, e.g. "ContentManagement.Entry.publish" */
+  topic: string;
+  /** Affected content type; undefined for asset changes, which can touch any type */
+  contentType?: string;
+  entryId?: string;
+  /** Resource URIs whose contents changed */
+  uris: string[];
+}
+
+// Resources built from every entry of these types
+const ACTIVITY_TYPES = new Set(["blogPost", "meeting", "hackathon"]);
+const CALENDAR_TYPES = new Set(["meeting", "hackathon"]);
+
+/**
+ * Resource URIs whose contents change with an entry. Blog posts are
+ * addressed by slug, which delete and unpublish payloads don't carry, so
+ * callers look it up before the entry leaves the cache.
+ */
+export function affectedUris(
+  contentType: string | undefined,
+  entryId: string | undefined,
+  slug?: string
+): string[] {
+  const uris = ["contentful://stats/overview"];
+  if (!contentType || !entryId) return uris;
+
+  uris.push(`contentful://${contentType}/${entryId}`);
+  if (CALENDAR_TYPES.has(contentType)) {
+    uris.push("contentful://calendar/events.ics");
+  }
+  if (ACTIVITY_TYPES.has(contentType)) {
+    uris.push("contentful://stats/activity");
+  }
+  if (contentType === "eboardMember") {
+    uris.push("contentful://eboard/history");
+  }
+  if (contentType === "blogPost" && slug) {
+    uris.push(`contentful://blogPost/${slug}`);
+  }
+  return uris;
+}
+
+interface TrackedServer {
+  server: McpServer;
+  subscriptions: Set<string>;
+}
+
+const servers = new Set<TrackedServer>();
+
+async function deliver(update: ContentUpdate) {
+  // Instances using the in-memory cache only learn about changes this way
+  await invalidateCache(update.contentType).catch(() => 0);
+  resetSearchIndex();
+
+  let notified = 0;
+  for (const tracked of servers) {
+    const { server, subscriptions } = tracked;
+    if (!server.isConnected()) {
+      servers.delete(tracked);
+      continue;
+    }
+
+    try {
+      for (const uri of update.uris) {
+        if (subscriptions.has(uri)) {
+          await server.server.sendResourceUpdated({ uri });
+        }
+      }
+      server.sendResourceListChanged();
+      notified++;
+    } catch (error) {
+      logger.warn("Failed to notify MCP session", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return notified;
+}
+
+// Redis pub/sub lets the webhook reach sessions held open by other instances
+const getPublisher = env.REDIS_URL
+  ? redisConnection({
+      url: env.REDIS_URL,
+      logger,
+      purpose: "pub/sub",
+      fallback: "live updates reach only this instance",
+    })
+  : async () => undefined;
+
+let subscribed: Promise<void> | undefined;
+
+// A subscribed client can't publish, so subscriptions get their own
+const getSubscriber = env.REDIS_URL
+  ? redisConnection({
+      url: env.REDIS_URL,
+      logger,
+      purpose: "pub/sub",
+      fallback: "live updates reach only this instance",
+      // The subscription went with the client, so the next call subscribes again
+      onDrop: () => {
+        subscribed = undefined;
+      },
+    })
+  : async () => undefined;
+
+function ensureSubscribed() {
+  subscribed ??= (async () => {
+    const subscriber = await getSubscriber();
+    if (!subscriber) {
+      // Try again once Redis may be back
+      subscribed = undefined;
+      return;
+    }
+    await subscriber.subscribe(CHANNEL, message => {
+      deliver(JSON.parse(message) as ContentUpdate).catch(error =>
+        logger.error("Failed to deliver content update", error)
+      );
+    });
+  })();
+  return subscribed;
+}
+
+/**
+ * Registers an MCP server so it receives `resources/updated` and
+ * `resources/list_changed` notifications when content changes. Must be
+ * called before the server connects, since it adds the subscribe capability.
+ */
+export function trackServer(server: McpServer) {
+  const tracked: TrackedServer = { server, subscriptions: new Set() };
+
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true },
+  });
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    tracked.subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    tracked.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // The MCP adapter assigns its own onclose later, so keep calling whatever
+  // it sets while also forgetting the server once its transport closes
+  let onclose = server.server.onclose;
+  Object.defineProperty(server.server, "onclose", {
+    configurable: true,
+    get: () => () => {
+      servers.delete(tracked);
+      onclose?.();
+    },
+    set: (handler?: () => void) => {
+      onclose = handler;
+    },
+  });
+
+  servers.add(tracked);
+  ensureSubscribed().catch(error =>
+    logger.error("Failed to subscribe to content updates", error)
+  );
+}
+
+/**
+ * Announces a content change to every connected session, across instances
+ * when Redis is available and within this process otherwise.
+ */
+export async function publishContentUpdate(update: ContentUpdate) {
+  const client = await getPublisher();
+
+  if (client?.isReady) {
+    await client.publish(CHANNEL, JSON.stringify(update));
+    return;
+  }
+  await deliver(update);
+}
@@ -0,0 +1,277 @@
+import { randomBytes } from "crypto";
+import type { EntrySkeletonType } from "contentful";
+import type {
+  ContentTypeDefinition,
+  ContentTypeField,
+  LocalizedFields,
+  ManagedEntry,
+  ManagementApi,
+} from "@/app/utils/management";
+import { contentSource } from "@/app/utils/content-source";
+import { Logger } from "@/app/utils/logger";
+import type { PublishStatus } from "@/app/utils/preview";
+
+const logger = new Logger("LocalManagement");
+
+const URL_PATTERN = {
+  regexp: { pattern: "^https?://[^\\s]+$" },
+  message: "must be an http(s) URL",
+};
+
+const symbol = (
+  id: string,
+  name: string,
+  extra: Partial<ContentTypeField> = {}
+): ContentTypeField => ({ id, name, type: "Symbol", ...extra });
+
+const assetLink = (id: string, name: string, required = false) =>
+  ({ id, name, type: "Link", linkType: "Asset", required }) as const;
+
+/**
+ * The writable part of the club's content model, mirroring the content types
+ * in Contentful closely enough to validate input offline.
+ */
+const CONTENT_MODEL: ContentTypeDefinition[] = [
+  {
+    sys: { id: "blogPost" },
+    name: "Blog Post",
+    fields: [
+      symbol("title", "Title", { required: true }),
+      symbol("slug", "Slug", {
+        required: true,
+        validations: [
+          {
+            regexp: { pattern: "^[a-z0-9]+(?:-[a-z0-9]+)*$" },
+            message: "must be lowercase words separated by hyphens",
+          },
+        ],
+      }),
+      { id: "content", name: "Content", type: "RichText", required: true },
+      {
+        id: "excerpt",
+        name: "Excerpt",
+        type: "Text",
+        validations: [{ size: { max: 500 } }],
+      },
+      symbol("author", "Author", { required: true }),
+      { id: "publishDate", name: "Publish Date", type: "Date" },
+      assetLink("coverImage", "Cover Image"),
+    ],
+  },
+  {
+    sys: { id: "meeting" },
+    name: "Meeting",
+    fields: [
+      symbol("title", "Title", { required: true }),
+      { id: "date", name: "Date", type: "Date", required: true },
+      { id: "description", name: "Description", type: "Text" },
+      assetLink("image", "Image"),
+      symbol("meetingLocation", "Meeting Location"),
+      assetLink("slides", "Slides"),
+      symbol("slidesUrl", "Slides URL", { validations: [URL_PATTERN] }),
+      symbol("recording", "Recording", { validations: [URL_PATTERN] }),
+      symbol("resourcesUrl", "Resources URL", { validations: [URL_PATTERN] }),
+    ],
+  },
+  {
+    sys: { id: "parallaxBanner" },
+    name: "Parallax Banner",
+    fields: [
+      symbol("title", "Title", { required: true }),
+      assetLink("image", "Image", true),
+      symbol("link", "Link", { validations: [URL_PATTERN] }),
+    ],
+  },
+];
+
+/** An entry of any writable type, as the content source returns it */
+interface SourceEntry extends EntrySkeletonType {
+  sys: {
+    id: string;
+    createdAt?: string;
+    updatedAt?: string;
+    /** Set on entries read with `preview` */
+    publishStatus?: PublishStatus;
+  };
+  fields: Record<string, unknown>;
+}
+
+// Contentful IDs are 22 URL-safe characters
+const newId = () => randomBytes(16).toString("base64url").slice(0, 22);
+
+const now = () => new Date().toISOString();
+
+// Keeps callers from mutating stored entries
+const copy = (entry: ManagedEntry): ManagedEntry =>
+  JSON.parse(JSON.stringify(entry));
+
+/**
+ * An in-memory stand-in for the Management API, so the write tools can be
+ * exercised offline. Existing entries are seeded on first access from the
+ * configured content source (usually the fixtures) as published entries, or
+ * as drafts when only preview has them. Changes live only as long as the
+ * process and are not visible to the read tools.
+ */
+export function createLocalManagementApi(options: {
+  locale: string;
+}): ManagementApi {
+  const items = new Map<string, ManagedEntry>();
+
+  const localize = (fields: Record<string, unknown>): LocalizedFields =>
+    Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [
+        key,
+        { [options.locale]: value },
+      ])
+    );
+
+  /** Keeps an entry read from the content source; drafts stay unpublished */
+  function adopt(
+    contentType: string,
+    { sys, fields }: SourceEntry
+  ): ManagedEntry {
+    const draft = sys.publishStatus === "draft";
+    const entry: ManagedEntry = {
+      sys: {
+        id: sys.id,
+        type: "Entry",
+        version: draft ? 1 : 2,
+        ...(!draft && { publishedVersion: 1 }),
+        createdAt: sys.createdAt ?? now(),
+        updatedAt: sys.updatedAt ?? now(),
+        contentType: { sys: { id: contentType } },
+      },
+      fields: localize(fields),
+    };
+    items.set(entry.sys.id, entry);
+    return entry;
+  }
+
+  async function seed(id: string): Promise<ManagedEntry | undefined> {
+    for (const contentType of CONTENT_MODEL) {
+      const { items: found } = await contentSource.getEntries<SourceEntry>({
+        content_type: contentType.sys.id,
+        "sys.id": id,
+        include: 0,
+        limit: 1,
+      });
+      if (found.length) return adopt(contentType.sys.id, found[0]);
+    }
+    return undefined;
+  }
+
+  async function current(id: string, type: "Entry" | "Asset") {
+    const item =
+      items.get(id) ?? (type === "Entry" ? await seed(id) : undefined);
+    if (!item || item.sys.type !== type) {
+      throw new Error(`${type} "${id}" not found`);
+    }
+    return item;
+  }
+
+  async function save(entry: ManagedEntry, publish: boolean) {
+    const stored = await current(entry.sys.id, entry.sys.type);
+    if (stored.sys.version !== entry.sys.version) {
+      throw new Error(
+        `Version mismatch for ${entry.sys.id}: expected ${stored.sys.version}, got ${entry.sys.version}`
+      );
+    }
+
+    const updated: ManagedEntry = {
+      sys: {
+        ...stored.sys,
+        version: stored.sys.version + 1,
+        updatedAt: now(),
+        ...(publish && { publishedVersion: stored.sys.version }),
+      },
+      fields: publish ? stored.fields : copy(entry).fields,
+    };
+    items.set(updated.sys.id, updated);
+    return copy(updated);
+  }
+
+  return {
+    name: "local",
+
+    async getContentType(id) {
+      const contentType = CONTENT_MODEL.find(type => type.sys.id === id);
+      if (!contentType) {
+        throw new Error(`Content type "${id}" not found`);
+      }
+      return JSON.parse(JSON.stringify(contentType));
+    },
+
+    getEntry: async id => copy(await current(id, "Entry")),
+
+    async findEntry(contentType, field, value) {
+      const matches = (entry: ManagedEntry) =>
+        entry.sys.contentType?.sys.id === contentType &&
+        entry.fields[field]?.[options.locale] === value;
+      const local = [...items.values()].find(matches);
+      if (local) return copy(local);
+
+      const query = {
+        content_type: contentType,
+        [`fields.${field}`]: value,
+        include: 0,
+        limit: 1,
+      };
+      // Drafts are only readable through preview, when it is configured
+      const { items: found } = await contentSource
+        .getEntries<SourceEntry>({ ...query, preview: true })
+        .catch(() => contentSource.getEntries<SourceEntry>(query));
+      // Entries already here were matched above, edits included
+      if (!found.length || items.has(found[0].sys.id)) return undefined;
+      return copy(adopt(contentType, found[0]));
+    },
+
+    async createEntry(contentType, fields) {
+      await this.getContentType(contentType);
+      const timestamp = now();
+      const entry: ManagedEntry = {
+        sys: {
+          id: newId(),
+          type: "Entry",
+          version: 1,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          contentType: { sys: { id: contentType } },
+        },
+        fields: JSON.parse(JSON.stringify(fields)),
+      };
+      items.set(entry.sys.id, entry);
+      logger.info("Created local entry", { id: entry.sys.id, contentType });
+      return copy(entry);
+    },
+
+    updateEntry: entry => save(entry, false),
+    publishEntry: entry => save(entry, true),
+
+    async createAsset(asset) {
+      const timestamp = now();
+      const created: ManagedEntry = {
+        // Version 2: created, then processed
+        sys: {
+          id: newId(),
+          type: "Asset",
+          version: 2,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+        fields: localize({
+          title: asset.title,
+          file: {
+            contentType: asset.contentType,
+            fileName: asset.fileName,
+            // Contentful serves processed files from protocol-relative URLs
+            url: asset.url.replace(/^https?:/, ""),
+          },
+        }),
+      };
+      items.set(created.sys.id, created);
+      return copy(created);
+    },
+
+    publishAsset: asset => save(asset, true),
+  };
+}
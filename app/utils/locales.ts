@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { env } from "@/config/env";
+
+export interface Locale {
+  code: string;
+  name: string;
+  default: boolean;
+  /** Locale Contentful falls back to for empty fields; null ends the chain */
+  fallbackCode: string | null;
+}
+
+/** Shared `locale` parameter for the tools that read entries */
+export const localeParams = {
+  locale: z
+    .string()
+    .optional()
+    .describe(
+      "Locale code such as en-US; fields missing in it fall back along the locale's fallback chain (see contentful://locales)"
+    ),
+};
+
+/**
+ * Fallback chains that replace the space's own, e.g. `{ "es-MX": ["es"] }`.
+ * The default locale always ends a chain, so it doesn't need listing.
+ */
+const LOCALE_FALLBACKS = loadConfiguredFallbacks();
+
+function loadConfiguredFallbacks(): Record<string, string[]> {
+  if (!env.LOCALE_FALLBACKS) return {};
+  try {
+    return z
+      .record(z.array(z.string().min(1)))
+      .parse(JSON.parse(env.LOCALE_FALLBACKS));
+  } catch (error) {
+    const detail =
+      error instanceof z.ZodError
+        ? error.errors
+            .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")
+        : (error as Error).message;
+    throw new Error(`❌ Invalid LOCALE_FALLBACKS: ${detail}`);
+  }
+}
+
+/**
+ * The locales whose values are tried, in order, for a field requested in
+ * `code`: the locale itself, its configured (or else the space's) fallbacks,
+ * then the default locale. Throws for locales the space doesn't have.
+ */
+export function fallbackChain(code: string, locales: Locale[]): string[] {
+  const byCode = new Map(locales.map(locale => [locale.code, locale]));
+  if (!byCode.has(code)) {
+    throw new Error(
+      `Unknown locale "${code}". Available locales: ${[...byCode.keys()].join(", ")}`
+    );
+  }
+
+  const chain = [code];
+  if (LOCALE_FALLBACKS[code]) {
+    chain.push(...LOCALE_FALLBACKS[code]);
+  } else {
+    let next = byCode.get(code)!.fallbackCode;
+    // Guard against a misconfigured space where fallbacks loop
+    while (next && !chain.includes(next)) {
+      chain.push(next);
+      next = byCode.get(next)?.fallbackCode ?? null;
+    }
+  }
+
+  const defaultCode = locales.find(locale => locale.default)?.code;
+  if (defaultCode) chain.push(defaultCode);
+  return [...new Set(chain)];
+}
+
+const isEntryOrAsset = (value: any): boolean =>
+  (value.sys?.type === "Entry" || value.sys?.type === "Asset") &&
+  !!value.fields &&
+  typeof value.fields === "object";
+
+/**
+ * Turns entries fetched with `locale: "*"` (every field a map of locale to
+ * value) into entries of a single locale, taking each field from the first
+ * locale in `chain` that has a value. Linked and embedded entries and
+ * assets are localized too.
+ */
+export function localize(value: any, chain: string[]): any {
+  if (Array.isArray(value)) return value.map(item => localize(item, chain));
+  if (!value || typeof value !== "object") return value;
+
+  if (isEntryOrAsset(value)) {
+    return {
+      ...value,
+      sys: { ...value.sys, locale: chain[0] },
+      fields: Object.fromEntries(
+        Object.entries(value.fields as Record<string, any>).flatMap(
+          ([field, values]) => {
+            const code = chain.find(code => values?.[code] !== undefined);
+            return code ? [[field, localize(values[code], chain)]] : [];
+          }
+        )
+      ),
+    };
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [key, localize(child, chain)])
+  );
+}
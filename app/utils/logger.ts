@@ -1,7 +1,88 @@
 /* eslint-disable */
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
 
 const isServer = typeof window === "undefined";
 
+const LEVELS = { debug: 10, info: 20, action: 20, warn: 30, error: 40 };
+
+type Level = keyof typeof LEVELS;
+
+/** Correlation fields added to every log line written while they're set */
+export interface LogContext {
+  requestId?: string;
+  /** See sessionLogId; never the session ID itself */
+  sessionId?: string;
+  client?: string;
+  tool?: string;
+  [field: string]: unknown;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/** Runs `fn` with `fields` added to the log context of everything it logs. */
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Like withLogContext, but ignores any context that is already set. For
+ * callbacks that may run in a context inherited from an unrelated request.
+ */
+export function withFreshLogContext<T>(fields: LogContext, fn: () => T): T {
+  return logContext.run({ ...fields }, fn);
+}
+
+/**
+ * What logs show for an MCP session ID. Knowing an SSE session's ID is
+ * enough to post into it, so only a short hash is logged.
+ */
+export const sessionLogId = (sessionId: string): string =>
+  createHash("sha256").update(sessionId).digest("hex").slice(0, 12);
+
+export function getLogContext(): LogContext {
+  return logContext.getStore() ?? {};
+}
+
+// Read straight from process.env: config/env.ts logs while it validates
+const minimumLevel =
+  LEVELS[(process.env.LOG_LEVEL?.toLowerCase() ?? "info") as Level] ??
+  LEVELS.info;
+const useJson =
+  (process.env.LOG_FORMAT ??
+    (process.env.NODE_ENV === "production" ? "json" : "pretty")) === "json";
+
+const SECRET_KEY = /token|secret|password|authorization|api[-_]?key|cookie/i;
+const REDACTED = "[REDACTED]";
+
+// Values of secret environment variables, masked wherever they show up
+let secrets: string[] | undefined;
+const secretValues = () =>
+  (secrets ??= Object.entries(process.env)
+    .filter(
+      ([key, value]) => SECRET_KEY.test(key) && value && value.length >= 8
+    )
+    .map(([, value]) => value as string));
+
+function redact(value: unknown, secrets: string[], depth = 0): unknown {
+  if (typeof value === "string") {
+    return secrets.reduce(
+      (text, secret) => text.split(secret).join(REDACTED),
+      value
+    );
+  }
+  if (!value || typeof value !== "object" || depth > 8) return value;
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, secrets, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) ? REDACTED : redact(item, secrets, depth + 1),
+    ])
+  );
+}
+
 export class Logger {
   private context: string;
   private isServerContext: boolean;
@@ -20,7 +101,8 @@ export class Logger {
     this.isServerContext = isServer;
   }
 
-  private shouldLog(): boolean {
+  private shouldLog(level: Level): boolean {
+    if (LEVELS[level] < minimumLevel) return false;
     // Always log server-side actions
     if (this.isServerContext) return true;
     // Only log client-side in development
@@ -60,63 +142,78 @@ export class Logger {
     return logParts.join(" ");
   }
 
-  info(message: string, data?: any) {
-    if (!this.shouldLog()) return;
-    const formattedData = this.formatMessage("info", message, data);
-    console.log(
-      this.colorize("blue", this.formatLogLevel("info")) +
-        " " +
-        this.formatOutput(formattedData)
+  /** One JSON object per line, for log drains such as Vercel's */
+  private formatJson(level: Level, message: string, data?: any) {
+    return JSON.stringify({
+      level,
+      timestamp: new Date().toISOString(),
+      context: this.context,
+      message,
+      ...getLogContext(),
+      ...(data && typeof data === "object" && !Array.isArray(data)
+        ? data
+        : data !== undefined && { data }),
+    });
+  }
+
+  private write(
+    level: Level,
+    color: keyof typeof this.colors,
+    message: string,
+    data?: any
+  ) {
+    if (!this.shouldLog(level)) return;
+    const safeMessage = redact(message, secretValues()) as string;
+    const safeData = data && redact(data, secretValues());
+    const print =
+      level === "error"
+        ? console.error
+        : level === "warn"
+          ? console.warn
+          : level === "debug"
+            ? console.debug
+            : console.log;
+
+    if (useJson) {
+      print(this.formatJson(level, safeMessage, safeData));
+      return;
+    }
+
+    const context = getLogContext();
+    const formattedData = this.formatMessage(
+      level,
+      safeMessage,
+      Object.keys(context).length ? { ...context, ...safeData } : safeData
     );
+    const label =
+      level === "error"
+        ? this.colors.bold + this.formatLogLevel(level)
+        : this.formatLogLevel(level);
+    print(this.colorize(color, label) + " " + this.formatOutput(formattedData));
+  }
+
+  info(message: string, data?: any) {
+    this.write("info", "blue", message, data);
   }
 
   error(message: string, error?: Error | unknown, data?: any) {
-    if (!this.shouldLog()) return;
     const errorData =
       error instanceof Error
         ? { name: error.name, message: error.message, stack: error.stack }
         : error;
-
-    const formattedData = this.formatMessage("error", message, {
-      ...data,
-      error: errorData,
-    });
-
-    console.error(
-      this.colorize("red", this.colors.bold + this.formatLogLevel("error")) +
-        " " +
-        this.formatOutput(formattedData)
-    );
+    this.write("error", "red", message, { ...data, error: errorData });
   }
 
   warn(message: string, data?: any) {
-    if (!this.shouldLog()) return;
-    const formattedData = this.formatMessage("warn", message, data);
-    console.warn(
-      this.colorize("yellow", this.formatLogLevel("warn")) +
-        " " +
-        this.formatOutput(formattedData)
-    );
+    this.write("warn", "yellow", message, data);
   }
 
   debug(message: string, data?: any) {
-    if (!this.shouldLog()) return;
-    const formattedData = this.formatMessage("debug", message, data);
-    console.debug(
-      this.colorize("gray", this.formatLogLevel("debug")) +
-        " " +
-        this.formatOutput(formattedData)
-    );
+    this.write("debug", "gray", message, data);
   }
 
   // New method specifically for server actions
   action(message: string, data?: any) {
-    if (!this.shouldLog()) return;
-    const formattedData = this.formatMessage("action", message, data);
-    console.log(
-      this.colorize("magenta", this.formatLogLevel("action")) +
-        " " +
-        this.formatOutput(formattedData)
-    );
+    this.write("action", "magenta", message, data);
   }
 }
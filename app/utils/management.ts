@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { env } from "@/config/env";
+import { Logger } from "@/app/utils/logger";
+import { createLocalManagementApi } from "@/app/utils/local-management";
+
+const logger = new Logger("ManagementApi");
+
+// Field values are sent for this locale only
+export const DEFAULT_LOCALE = "en-US";
+
+const CMA_HOST = "https://api.contentful.com";
+
+// Asset processing is asynchronous; give it a few seconds before giving up
+const ASSET_POLL_ATTEMPTS = 10;
+const ASSET_POLL_INTERVAL_MS = 500;
+
+/** Fields keyed by field ID, then locale: `{ title: { "en-US": "..." } }` */
+export type LocalizedFields = Record<string, Record<string, unknown>>;
+
+export interface ManagedSys {
+  id: string;
+  type: "Entry" | "Asset";
+  version: number;
+  /** Version at the last publish; absent for drafts that were never published */
+  publishedVersion?: number;
+  createdAt: string;
+  updatedAt: string;
+  contentType?: { sys: { id: string } };
+}
+
+export interface ManagedEntry {
+  sys: ManagedSys;
+  fields: LocalizedFields;
+}
+
+export interface FieldValidation {
+  size?: { min?: number; max?: number };
+  regexp?: { pattern: string; flags?: string };
+  in?: unknown[];
+  message?: string;
+  [validation: string]: unknown;
+}
+
+export interface ContentTypeField {
+  id: string;
+  name: string;
+  type:
+    | "Symbol"
+    | "Text"
+    | "RichText"
+    | "Integer"
+    | "Number"
+    | "Date"
+    | "Boolean"
+    | "Object"
+    | "Location"
+    | "Link"
+    | "Array";
+  required?: boolean;
+  disabled?: boolean;
+  linkType?: "Entry" | "Asset";
+  items?: { type: string; linkType?: string; validations?: FieldValidation[] };
+  validations?: FieldValidation[];
+}
+
+export interface ContentTypeDefinition {
+  sys: { id: string };
+  name: string;
+  fields: ContentTypeField[];
+}
+
+export interface NewAsset {
+  title: string;
+  /** Publicly reachable URL Contentful downloads the file from */
+  url: string;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * The subset of the Contentful Management API the authoring tools need.
+ * Updates and publishes are optimistic: they fail if `sys.version` is stale.
+ */
+export interface ManagementApi {
+  readonly name: "contentful" | "local";
+  getContentType(id: string): Promise<ContentTypeDefinition>;
+  getEntry(id: string): Promise<ManagedEntry>;
+  /** The first entry, draft or published, whose field equals `value` */
+  findEntry(
+    contentType: string,
+    field: string,
+    value: string
+  ): Promise<ManagedEntry | undefined>;
+  createEntry(
+    contentType: string,
+    fields: LocalizedFields
+  ): Promise<ManagedEntry>;
+  updateEntry(entry: ManagedEntry): Promise<ManagedEntry>;
+  publishEntry(entry: ManagedEntry): Promise<ManagedEntry>;
+  /** Creates an asset from a URL and waits until Contentful has processed it */
+  createAsset(asset: NewAsset): Promise<ManagedEntry>;
+  publishAsset(asset: ManagedEntry): Promise<ManagedEntry>;
+}
+
+export type PublishState = "draft" | "published" | "changed";
+
+/** Contentful bumps `version` once more when it records a publish. */
+export function publishState(sys: ManagedSys): PublishState {
+  if (!sys.publishedVersion) return "draft";
+  return sys.version === sys.publishedVersion + 1 ? "published" : "changed";
+}
+
+// The parts of a Management API error body worth repeating to the caller
+const errorBodySchema = z.object({
+  message: z.string().optional(),
+  details: z
+    .object({
+      errors: z
+        .array(
+          z.object({
+            path: z.array(z.union([z.string(), z.number()])).optional(),
+            details: z.string().optional(),
+            name: z.string().optional(),
+          })
+        )
+        .optional()
+        // Still report the message if Contentful changes this shape
+        .catch(undefined),
+    })
+    .optional(),
+});
+
+async function describeFailure(response: Response): Promise<string> {
+  try {
+    const body = errorBodySchema.parse(await response.json());
+    const errors = body.details?.errors ?? [];
+    const details = errors
+      .map(error =>
+        [error.path?.join("."), error.details ?? error.name]
+          .filter(Boolean)
+          .join(": ")
+      )
+      .join("; ");
+    return [body.message ?? response.statusText, details]
+      .filter(Boolean)
+      .join(" - ");
+  } catch {
+    return response.statusText;
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createContentfulManagementApi(options: {
+  spaceId: string;
+  environmentId: string;
+  accessToken: string;
+}): ManagementApi {
+  const base = `${CMA_HOST}/spaces/${options.spaceId}/environments/${options.environmentId}`;
+
+  async function request<T>(
+    method: string,
+    path: string,
+    init: { body?: unknown; headers?: Record<string, string> } = {}
+  ): Promise<T> {
+    const response = await fetch(base + path, {
+      method,
+      headers: {
+        Authorization: `Bearer ${options.accessToken}`,
+        "Content-Type": "application/vnd.contentful.management.v1+json",
+        ...init.headers,
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Contentful Management API ${method} ${path} failed (${response.status}): ${await describeFailure(response)}`
+      );
+    }
+    return (response.status === 204 ? undefined : response.json()) as T;
+  }
+
+  const versioned = (sys: ManagedSys) => ({
+    "X-Contentful-Version": String(sys.version),
+  });
+
+  return {
+    name: "contentful",
+
+    getContentType: id =>
+      request<ContentTypeDefinition>("GET", `/content_types/${id}`),
+
+    getEntry: id => request<ManagedEntry>("GET", `/entries/${id}`),
+
+    async findEntry(contentType, field, value) {
+      const query = new URLSearchParams({
+        content_type: contentType,
+        [`fields.${field}`]: value,
+        limit: "1",
+      });
+      const { items } = await request<{ items: ManagedEntry[] }>(
+        "GET",
+        `/entries?${query}`
+      );
+      return items[0];
+    },
+
+    createEntry: (contentType, fields) =>
+      request<ManagedEntry>("POST", "/entries", {
+        body: { fields },
+        headers: { "X-Contentful-Content-Type": contentType },
+      }),
+
+    updateEntry: entry =>
+      request<ManagedEntry>("PUT", `/entries/${entry.sys.id}`, {
+        body: { fields: entry.fields },
+        headers: versioned(entry.sys),
+      }),
+
+    publishEntry: entry =>
+      request<ManagedEntry>("PUT", `/entries/${entry.sys.id}/published`, {
+        headers: versioned(entry.sys),
+      }),
+
+    async createAsset(asset) {
+      const created = await request<ManagedEntry>("POST", "/assets", {
+        body: {
+          fields: {
+            title: { [DEFAULT_LOCALE]: asset.title },
+            file: {
+              [DEFAULT_LOCALE]: {
+                contentType: asset.contentType,
+                fileName: asset.fileName,
+                upload: asset.url,
+              },
+            },
+          },
+        },
+      });
+
+      await request<void>(
+        "PUT",
+        `/assets/${created.sys.id}/files/${DEFAULT_LOCALE}/process`,
+        { headers: versioned(created.sys) }
+      );
+
+      for (let attempt = 0; attempt < ASSET_POLL_ATTEMPTS; attempt++) {
+        await wait(ASSET_POLL_INTERVAL_MS);
+        const current = await request<ManagedEntry>(
+          "GET",
+          `/assets/${created.sys.id}`
+        );
+        const file = current.fields.file?.[DEFAULT_LOCALE] as
+          { url?: string } | undefined;
+        if (file?.url) return current;
+      }
+      throw new Error(
+        `Contentful did not finish processing asset ${created.sys.id} from ${asset.url}`
+      );
+    },
+
+    publishAsset: asset =>
+      request<ManagedEntry>("PUT", `/assets/${asset.sys.id}/published`, {
+        headers: versioned(asset.sys),
+      }),
+  };
+}
+
+function createManagementApi(): ManagementApi | undefined {
+  const backend =
+    env.MANAGEMENT_API ??
+    (env.CONTENT_SOURCE === "fixtures" ? "local" : "contentful");
+
+  if (backend === "local") {
+    logger.info("Write tools use the local Management API stand-in");
+    return createLocalManagementApi({ locale: DEFAULT_LOCALE });
+  }
+
+  if (!env.CONTENTFUL_SPACE_ID || !env.CONTENTFUL_MANAGEMENT_TOKEN) {
+    return undefined;
+  }
+  return createContentfulManagementApi({
+    spaceId: env.CONTENTFUL_SPACE_ID,
+    environmentId: env.CONTENTFUL_ENVIRONMENT,
+    accessToken: env.CONTENTFUL_MANAGEMENT_TOKEN,
+  });
+}
+
+let api: ManagementApi | undefined;
+
+/** The configured Management API; throws if write access isn't set up. */
+export function getManagementApi(): ManagementApi {
+  api ??= createManagementApi();
+  if (!api) {
+    throw new Error(
+      "Write tools need CONTENTFUL_MANAGEMENT_TOKEN (or MANAGEMENT_API=local for offline use)"
+    );
+  }
+  return api;
+}
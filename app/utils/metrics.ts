@@ -0,0 +1,186 @@
+type Labels = Record<string, string>;
+
+// Prometheus client defaults, in seconds
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const labelKey = (labels: Labels) =>
+  Object.keys(labels)
+    .sort()
+    .map(name => `${name}="${escapeLabel(labels[name])}"`)
+    .join(",");
+
+const series = (name: string, key: string, value: number) =>
+  `${name}${key ? `{${key}}` : ""} ${value}`;
+
+interface Metric {
+  render(): string[];
+}
+
+interface SharedMetrics {
+  registry: Map<string, Metric>;
+  values: Map<string, Map<string, unknown>>;
+}
+
+declare global {
+  var __prometheusMetrics: SharedMetrics | undefined;
+}
+
+// Values are per server instance; Prometheus sums them across instances.
+// Next.js may load this module once per route bundle, so both the registry
+// and the values live on globalThis where every copy shares them.
+const shared = (globalThis.__prometheusMetrics ??= {
+  registry: new Map(),
+  values: new Map(),
+});
+
+function register<V>(name: string, metric: Metric): Map<string, V> {
+  shared.registry.set(name, metric);
+  if (!shared.values.has(name)) shared.values.set(name, new Map());
+  return shared.values.get(name) as Map<string, V>;
+}
+
+const header = (name: string, help: string, type: string) => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+];
+
+export class Counter {
+  private values: Map<string, number>;
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {
+    this.values = register(name, this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  render() {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...[...this.values].map(([key, value]) => series(this.name, key, value)),
+    ];
+  }
+}
+
+export class Gauge {
+  private values: Map<string, number>;
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {
+    this.values = register(name, this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  dec(labels: Labels = {}, amount = 1) {
+    this.inc(labels, -amount);
+  }
+
+  render() {
+    return [
+      ...header(this.name, this.help, "gauge"),
+      ...[...this.values].map(([key, value]) => series(this.name, key, value)),
+    ];
+  }
+}
+
+export class Histogram {
+  private values: Map<string, { counts: number[]; sum: number; count: number }>;
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets = DEFAULT_BUCKETS
+  ) {
+    this.values = register(name, this);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render() {
+    const lines = header(this.name, this.help, "histogram");
+    for (const [key, { counts, sum, count }] of this.values) {
+      const withLe = (le: string) => (key ? `${key},le="${le}"` : `le="${le}"`);
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          series(`${this.name}_bucket`, withLe(String(bound)), counts[index])
+        );
+      });
+      lines.push(series(`${this.name}_bucket`, withLe("+Inf"), count));
+      lines.push(series(`${this.name}_sum`, key, sum));
+      lines.push(series(`${this.name}_count`, key, count));
+    }
+    return lines;
+  }
+}
+
+export const mcpCalls = new Counter(
+  "mcp_calls_total",
+  "Tool, resource and prompt calls by name and outcome (success, error or exception)"
+);
+
+export const mcpCallDuration = new Histogram(
+  "mcp_call_duration_seconds",
+  "Time to answer tool, resource and prompt calls"
+);
+
+export const contentfulRequestDuration = new Histogram(
+  "contentful_request_duration_seconds",
+  "Latency of uncached content source requests by content type"
+);
+
+export const contentfulRequestErrors = new Counter(
+  "contentful_request_errors_total",
+  "Content source requests that failed, by content type"
+);
+
+export const cacheLookups = new Counter(
+  "cache_lookups_total",
+  "Response cache lookups by content type and result (hit, shared or miss)"
+);
+
+export const activeSessions = new Gauge(
+  "mcp_active_sessions",
+  "Open MCP sessions by transport"
+);
+
+export const rateLimitRejections = new Counter(
+  "mcp_rate_limited_total",
+  "Calls rejected by rate limits, by name"
+);
+
+/** Every registered metric in the Prometheus text format. */
+export function renderMetrics(): string {
+  return (
+    [...shared.registry.values()]
+      .flatMap(metric => metric.render())
+      .join("\n") + "\n"
+  );
+}
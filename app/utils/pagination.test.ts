@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  MAX_PAGE_SIZE,
+  paginate,
+  paginationParams,
+} from "@/app/utils/pagination";
+
+const items = Array.from({ length: 7 }, (_, index) => index);
+
+describe("paginate", () => {
+  it("walks the whole collection by following nextCursor", () => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginate(items, { limit: 3, cursor });
+      seen.push(...page.items);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(items);
+  });
+
+  it("starts from the cursor rather than the offset", () => {
+    const { nextCursor } = paginate(items, { limit: 2 });
+    const page = paginate(items, {
+      limit: 2,
+      offset: 5,
+      cursor: nextCursor!,
+    });
+
+    expect(page).toMatchObject({ items: [2, 3], offset: 2, total: 7 });
+  });
+
+  it("returns the rest of the collection without a limit", () => {
+    expect(paginate(items, { offset: 4 })).toEqual({
+      items: [4, 5, 6],
+      total: 7,
+      offset: 4,
+      nextCursor: null,
+    });
+  });
+
+  it("rejects cursors it didn't issue", () => {
+    expect(() => paginate(items, { cursor: "not-a-cursor" })).toThrow(
+      'Invalid cursor "not-a-cursor"'
+    );
+    const negative = Buffer.from('{"offset":-1}').toString("base64url");
+    expect(() => paginate(items, { cursor: negative })).toThrow(
+      "Invalid cursor"
+    );
+  });
+});
+
+describe("paginationParams", () => {
+  const params = z.object(paginationParams);
+
+  it("accepts limits from 1 to MAX_PAGE_SIZE", () => {
+    expect(params.safeParse({ limit: 1 }).success).toBe(true);
+    expect(params.safeParse({ limit: MAX_PAGE_SIZE }).success).toBe(true);
+  });
+
+  it("rejects limits outside that range and fractions", () => {
+    for (const limit of [0, -5, MAX_PAGE_SIZE + 1, 2.5]) {
+      expect(params.safeParse({ limit }).success).toBe(false);
+    }
+  });
+});
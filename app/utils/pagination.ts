@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// Contentful's own cap on entries per request
+export const MAX_PAGE_SIZE = 1000;
+
+/** Shared `limit` / `offset` / `cursor` parameters for the `query-*` tools */
+export const paginationParams = {
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe("Limit number of results"),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Number of results to skip"),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "nextCursor from a previous response; takes precedence over offset"
+    ),
+};
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  /** Pass back as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+const encodeCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ offset })).toString("base64url");
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor "${cursor}"`);
+}
+
+/**
+ * Slices one page out of a complete collection. Without a limit the page
+ * runs to the end of the collection.
+ */
+export function paginate<T>(
+  items: T[],
+  options: { limit?: number; offset?: number; cursor?: string }
+): Page<T> {
+  const offset = options.cursor
+    ? decodeCursor(options.cursor)
+    : (options.offset ?? 0);
+  const end =
+    options.limit && options.limit > 0 ? offset + options.limit : items.length;
+
+  return {
+    items: items.slice(offset, end),
+    total: items.length,
+    offset,
+    nextCursor: end < items.length ? encodeCursor(end) : null,
+  };
+}
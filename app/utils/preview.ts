@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/**
+ * Where an entry read with preview stands: never published, published with
+ * unpublished changes, or exactly as published.
+ */
+export type PublishStatus = "draft" | "changed" | "published";
+
+/** Shared `preview` parameter for the tools that read entries */
+export const previewParams = {
+  preview: z
+    .boolean()
+    .optional()
+    .describe(
+      "Read drafts and unpublished changes through the Preview API; needs an API key with the read:drafts scope"
+    ),
+};
+
+/**
+ * Compares an entry from the Preview API with its published version, if
+ * any. Publishing sets both to the same `updatedAt`, so any difference
+ * means it was edited since.
+ */
+export function publishStatus(
+  previewUpdatedAt: string,
+  publishedUpdatedAt: string | undefined
+): PublishStatus {
+  if (publishedUpdatedAt === undefined) return "draft";
+  return previewUpdatedAt === publishedUpdatedAt ? "published" : "changed";
+}
@@ -0,0 +1,183 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  getAllMeetings,
+  getAllPosts,
+  getHackathonBySlug,
+  getHackathonsByStatus,
+  getMeetingById,
+  getUpcomingMeetings,
+} from "@/app/utils/contentful";
+import { getHackathonTiming } from "@/app/utils/hackathon-status";
+import { toAbsoluteUrl } from "@/app/utils/images";
+import { richTextToMarkdown } from "@/app/utils/rich-text";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const userMessage = (text: string): GetPromptResult["messages"][number] => ({
+  role: "user",
+  content: { type: "text", text },
+});
+
+const asJson = (data: unknown) =>
+  "```json\n" + JSON.stringify(data, null, 2) + "\n```";
+
+export async function buildWeeklyNewsletterPrompt(
+  focus?: string
+): Promise<GetPromptResult> {
+  const now = Date.now();
+
+  const [posts, meetings, upcomingMeetings, ongoing, upcoming] =
+    await Promise.all([
+      getAllPosts(),
+      getAllMeetings(),
+      getUpcomingMeetings(),
+      getHackathonsByStatus("ongoing"),
+      getHackathonsByStatus("upcoming"),
+    ]);
+
+  const lastWeekMeetings = meetings.filter(meeting => {
+    const date = new Date(meeting.fields.date).getTime();
+    return date <= now && date >= now - 7 * DAY_MS;
+  });
+
+  const data = {
+    recentPosts: posts.slice(0, 3).map(post => ({
+      title: post.fields.title,
+      author: post.fields.author,
+      publishDate: post.fields.publishDate,
+      excerpt: post.fields.excerpt,
+      slug: post.fields.slug,
+    })),
+    lastWeekMeetings: lastWeekMeetings.map(meeting => ({
+      title: meeting.fields.title,
+      date: meeting.fields.date,
+      description: meeting.fields.description,
+      slidesUrl: meeting.fields.slidesUrl,
+      recording: meeting.fields.recording,
+    })),
+    upcomingMeetings: upcomingMeetings.map(meeting => ({
+      title: meeting.fields.title,
+      date: meeting.fields.date,
+      location: meeting.fields.meetingLocation,
+      description: meeting.fields.description,
+    })),
+    hackathons: [...ongoing, ...upcoming].map(hackathon => ({
+      title: hackathon.fields.title,
+      status: getHackathonTiming(hackathon).status,
+      startDate: hackathon.fields.startDate,
+      endDate: hackathon.fields.endDate,
+      registrationLink: hackathon.fields.registrationLink,
+    })),
+  };
+
+  return {
+    description: "Weekly SJU ACM newsletter draft",
+    messages: [
+      userMessage(
+        [
+          "Write this week's SJU ACM newsletter for club members.",
+          "",
+          "Structure it as:",
+          "1. A short, friendly opening (two sentences at most).",
+          "2. **Last week** - recap the meetings below, linking slides and recordings when available.",
+          "3. **Coming up** - upcoming meetings with date, time and location.",
+          "4. **Hackathons** - ongoing and upcoming hackathons with registration links.",
+          "5. **From the blog** - the recent posts, one line each.",
+          "6. A one-line sign-off from the SJU ACM e-board.",
+          "",
+          "Skip any section that has no data rather than inventing content. Keep dates in a readable format (e.g. Tue, Mar 4 at 6:00 PM).",
+          ...(focus ? ["", `Give extra emphasis to: ${focus}`] : []),
+          "",
+          "Club data:",
+          asJson(data),
+        ].join("\n")
+      ),
+    ],
+  };
+}
+
+export async function buildMeetingRecapPrompt(
+  meetingId: string
+): Promise<GetPromptResult> {
+  const meeting = await getMeetingById(meetingId);
+
+  if (!meeting) {
+    throw new Error(`No meeting found with ID "${meetingId}"`);
+  }
+
+  const data = {
+    title: meeting.fields.title,
+    date: meeting.fields.date,
+    location: meeting.fields.meetingLocation,
+    description: meeting.fields.description,
+    slidesUrl:
+      meeting.fields.slidesUrl ??
+      (meeting.fields.slides?.fields?.file?.url &&
+        toAbsoluteUrl(meeting.fields.slides.fields.file.url)),
+    recording: meeting.fields.recording,
+    resourcesUrl: meeting.fields.resourcesUrl,
+  };
+
+  return {
+    description: `Recap of "${meeting.fields.title}"`,
+    messages: [
+      userMessage(
+        [
+          "Write a recap of the SJU ACM meeting below for members who missed it.",
+          "",
+          "- Open with one sentence on what the meeting covered.",
+          "- Summarise the key topics as 3-5 bullet points based on the description.",
+          "- End with a **Resources** list linking the slides, recording and any other resources that are present.",
+          "- Keep it under 200 words and don't invent details that aren't in the data.",
+          "",
+          "Meeting data:",
+          asJson(data),
+        ].join("\n")
+      ),
+    ],
+  };
+}
+
+export async function buildHackathonAnnouncementPrompt(
+  hackathonId: string,
+  channel = "email"
+): Promise<GetPromptResult> {
+  const hackathon = await getHackathonBySlug(hackathonId);
+
+  if (!hackathon) {
+    throw new Error(`No hackathon found with ID "${hackathonId}"`);
+  }
+
+  const { status, daysUntilStart } = getHackathonTiming(hackathon);
+
+  const data = {
+    title: hackathon.fields.title,
+    description: hackathon.fields.description,
+    startDate: hackathon.fields.startDate,
+    endDate: hackathon.fields.endDate,
+    status,
+    daysUntilStart,
+    registrationLink: hackathon.fields.registrationLink,
+    details: richTextToMarkdown(hackathon.fields.details),
+  };
+
+  return {
+    description: `Announcement for "${hackathon.fields.title}"`,
+    messages: [
+      userMessage(
+        [
+          `Write a ${channel} announcement promoting the hackathon below to SJU ACM members.`,
+          "",
+          "- Lead with an attention-grabbing first line.",
+          "- Include the dates and how many days are left until it starts, if it hasn't started yet.",
+          "- Highlight two or three reasons to participate drawn from the description and details.",
+          "- End with a clear call to action using the registration link, if there is one.",
+          `- Match the length and tone to ${channel}, and don't invent prizes, sponsors or details that aren't in the data.`,
+          "",
+          "Hackathon data:",
+          asJson(data),
+        ].join("\n")
+      ),
+    ],
+  };
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Listener = (...args: unknown[]) => void;
+
+// Stand-ins for node-redis clients, in the order createClient hands them out
+const clients: FakeClient[] = [];
+
+class FakeClient {
+  isOpen = false;
+  listeners = new Map<string, Listener[]>();
+  // [count, retryAfterMs], as the sliding window script returns
+  eval = vi
+    .fn<(...args: unknown[]) => Promise<unknown>>()
+    .mockResolvedValue([1, 0]);
+
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  async connect() {
+    this.isOpen = true;
+  }
+
+  /** Gives up the connection the way node-redis does after its last retry */
+  end() {
+    this.isOpen = false;
+    this.listeners.get("end")?.forEach(listener => listener());
+  }
+}
+
+vi.mock("redis", () => ({
+  createClient: () => {
+    const client = new FakeClient();
+    clients.push(client);
+    return client;
+  },
+}));
+
+const load = async (env: Record<string, string>) => {
+  vi.resetModules();
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  return import("@/app/utils/rate-limit");
+};
+
+beforeEach(() => {
+  clients.length = 0;
+  vi.useFakeTimers({ now: new Date("2026-03-02T12:00:00Z") });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("consumeRateLimit without Redis", () => {
+  it("allows `limit` calls per window, then says when the next is allowed", async () => {
+    const { consumeRateLimit } = await load({
+      MCP_RATE_LIMITS: JSON.stringify({
+        "search-content": { limit: 3, windowSeconds: 60 },
+      }),
+    });
+
+    const first = await consumeRateLimit("key:a", "search-content");
+    expect(first).toMatchObject({ allowed: true, remaining: 2, limit: 3 });
+
+    vi.advanceTimersByTime(20_000);
+    await consumeRateLimit("key:a", "search-content");
+    await consumeRateLimit("key:a", "search-content");
+
+    const denied = await consumeRateLimit("key:a", "search-content");
+    // The first call leaves the window 40 seconds from now
+    expect(denied).toMatchObject({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 40,
+    });
+  });
+
+  it("allows calls again once the oldest leaves the window", async () => {
+    const { consumeRateLimit } = await load({
+      MCP_RATE_LIMITS: JSON.stringify({
+        "search-content": { limit: 1, windowSeconds: 60 },
+      }),
+    });
+
+    await consumeRateLimit("key:a", "search-content");
+    vi.advanceTimersByTime(59_999);
+    expect((await consumeRateLimit("key:a", "search-content")).allowed).toBe(
+      false
+    );
+
+    vi.advanceTimersByTime(1);
+    expect((await consumeRateLimit("key:a", "search-content")).allowed).toBe(
+      true
+    );
+  });
+
+  it("counts clients apart and unlisted names together", async () => {
+    const { consumeRateLimit, RATE_LIMITS } = await load({
+      MCP_RATE_LIMITS: JSON.stringify({
+        default: { limit: 1, windowSeconds: 60 },
+      }),
+    });
+    expect(RATE_LIMITS["get-events"]).toBeUndefined();
+
+    await consumeRateLimit("key:a", "get-events");
+    expect((await consumeRateLimit("key:b", "get-events")).allowed).toBe(true);
+    // Unlisted names share the default budget
+    expect((await consumeRateLimit("key:a", "get-posts")).allowed).toBe(false);
+  });
+});
+
+describe("consumeRateLimit with Redis", () => {
+  it("allows calls when Redis fails", async () => {
+    const { consumeRateLimit } = await load({ REDIS_URL: "redis://test" });
+
+    // Connect first, then make the script fail
+    expect((await consumeRateLimit("key:a", "search-content")).remaining).toBe(
+      9
+    );
+    clients[0].eval.mockRejectedValue(new Error("Connection lost"));
+
+    expect(await consumeRateLimit("key:a", "search-content")).toMatchObject({
+      allowed: true,
+      retryAfterSeconds: 0,
+    });
+  });
+
+  it("connects again after Redis drops the connection", async () => {
+    const { consumeRateLimit } = await load({ REDIS_URL: "redis://test" });
+
+    await consumeRateLimit("key:a", "search-content");
+    const [first] = clients;
+    first.end();
+
+    await consumeRateLimit("key:a", "search-content");
+    expect(clients).toHaveLength(2);
+    expect(clients[1].eval).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { env } from "@/config/env";
+import { Logger, sessionLogId } from "@/app/utils/logger";
+import { redisConnection, type RedisClient } from "@/app/utils/redis";
+
+const logger = new Logger("RateLimit");
+
+const KEY_PREFIX = "ratelimit:";
+
+export interface RateLimit {
+  /** Calls allowed within any window of `windowSeconds` */
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitDecision extends RateLimit {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until another call would be allowed; 0 when allowed */
+  retryAfterSeconds: number;
+}
+
+const rateLimitSchema = z.object({
+  limit: z.number().int().positive(),
+  windowSeconds: z.number().int().positive(),
+});
+
+/**
+ * Limits per tool, prompt or resource name; everything else shares the
+ * "default" budget. Calls that fetch whole collections get less.
+ * MCP_RATE_LIMITS can override any of these.
+ */
+export const RATE_LIMITS: Record<string, RateLimit> = {
+  default: { limit: 60, windowSeconds: 60 },
+  "search-content": { limit: 10, windowSeconds: 60 },
+  "contentful-stats": { limit: 10, windowSeconds: 60 },
+  "get-activity-report": { limit: 10, windowSeconds: 60 },
+  "contentful-activity": { limit: 10, windowSeconds: 60 },
+  "export-calendar": { limit: 20, windowSeconds: 60 },
+  "contentful-calendar": { limit: 20, windowSeconds: 60 },
+  "weekly-newsletter": { limit: 10, windowSeconds: 60 },
+  "get-image": { limit: 20, windowSeconds: 60 },
+  ...loadConfiguredLimits(),
+};
+
+function loadConfiguredLimits(): Record<string, RateLimit> {
+  if (!env.MCP_RATE_LIMITS) return {};
+  try {
+    return z.record(rateLimitSchema).parse(JSON.parse(env.MCP_RATE_LIMITS));
+  } catch (error) {
+    const detail =
+      error instanceof z.ZodError
+        ? error.errors
+            .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")
+        : (error as Error).message;
+    throw new Error(`❌ Invalid MCP_RATE_LIMITS: ${detail}`);
+  }
+}
+
+interface RateLimitStore {
+  readonly name: "redis" | "memory";
+  /** Records a call unless the window is full; see RateLimitDecision */
+  consume(
+    key: string,
+    now: number,
+    rule: RateLimit
+  ): Promise<{ count: number; retryAfterMs: number }>;
+  /** Whether an SSE session with this ID is open on any instance */
+  hasSession(sessionId: string): Promise<boolean>;
+}
+
+function createMemoryStore(): RateLimitStore {
+  const calls = new Map<string, number[]>();
+
+  return {
+    name: "memory",
+    async consume(key, now, rule) {
+      const windowMs = rule.windowSeconds * 1000;
+      const recent = (calls.get(key) ?? []).filter(at => at > now - windowMs);
+      if (recent.length >= rule.limit) {
+        calls.set(key, recent);
+        return {
+          count: recent.length,
+          retryAfterMs: recent[0] + windowMs - now,
+        };
+      }
+      recent.push(now);
+      calls.set(key, recent);
+      return { count: recent.length, retryAfterMs: 0 };
+    },
+    // SSE sessions live in Redis, so without it none can be verified
+    async hasSession() {
+      return false;
+    },
+  };
+}
+
+// Sliding window log: one sorted set member per call, scored by time.
+// Runs as a script so concurrent calls can't both take the last slot.
+const CONSUME_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", key, "-inf", now - window)
+local count = redis.call("ZCARD", key)
+if count >= limit then
+  local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+  return { count, tonumber(oldest[2]) + window - now }
+end
+redis.call("ZADD", key, now, ARGV[4])
+redis.call("PEXPIRE", key, window)
+return { count + 1, 0 }
+`;
+
+function createRedisStore(client: RedisClient): RateLimitStore {
+  return {
+    name: "redis",
+    async consume(key, now, rule) {
+      const [count, retryAfterMs] = (await client.eval(CONSUME_SCRIPT, {
+        keys: [key],
+        arguments: [
+          String(now),
+          String(rule.windowSeconds * 1000),
+          String(rule.limit),
+          `${now}:${randomUUID()}`,
+        ],
+      })) as [number, number];
+      return { count, retryAfterMs };
+    },
+    async hasSession(sessionId) {
+      // The MCP adapter subscribes each open SSE session to this channel
+      const channel = `requests:${sessionId}`;
+      const subscribers = await client.pubSubNumSub(channel);
+      return (subscribers[channel] ?? 0) > 0;
+    },
+  };
+}
+
+const memoryStore = createMemoryStore();
+
+const getRedis = env.REDIS_URL
+  ? redisConnection({
+      url: env.REDIS_URL,
+      logger,
+      purpose: "rate limit",
+      fallback: "rate limits are per instance",
+    })
+  : async () => undefined;
+
+// While Redis is away, counts are kept per instance until it is back
+async function getStore(): Promise<RateLimitStore> {
+  const client = await getRedis();
+  return client ? createRedisStore(client) : memoryStore;
+}
+
+/**
+ * Who a request's calls count against: its API key, else its SSE session,
+ * else the caller's IP address. Clients pick their own session IDs, so one
+ * only counts when it names an SSE session the server opened; a made-up ID
+ * on each request can't reset the budget.
+ */
+export async function rateLimitClient(
+  request: Request,
+  keyName?: string
+): Promise<string> {
+  if (keyName) return `key:${keyName}`;
+
+  const url = new URL(request.url);
+  const session = url.searchParams.get("sessionId");
+  if (session && url.pathname.endsWith("/message")) {
+    try {
+      if (await (await getStore()).hasSession(session)) {
+        return `session:${sessionLogId(session)}`;
+      }
+    } catch (error) {
+      logger.warn("Session check failed, counting by IP", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip");
+  return ip ? `ip:${ip}` : "unknown";
+}
+
+/**
+ * Counts one call to `name` against `client`'s budget. Calls over the limit
+ * aren't counted. If the store fails the call is allowed, so an outage
+ * can't take the server down with it.
+ */
+export async function consumeRateLimit(
+  client: string,
+  name: string
+): Promise<RateLimitDecision> {
+  const bucket = RATE_LIMITS[name] ? name : "default";
+  const rule = RATE_LIMITS[bucket];
+
+  try {
+    const { count, retryAfterMs } = await (
+      await getStore()
+    ).consume(`${KEY_PREFIX}${client}:${bucket}`, Date.now(), rule);
+    const allowed = retryAfterMs === 0;
+    if (!allowed) {
+      logger.warn("Rate limit exceeded", { client, bucket, retryAfterMs });
+    }
+    return {
+      ...rule,
+      allowed,
+      remaining: Math.max(rule.limit - count, 0),
+      retryAfterSeconds: allowed ? 0 : Math.ceil(retryAfterMs / 1000),
+    };
+  } catch (error) {
+    logger.warn("Rate limit check failed, allowing call", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      ...rule,
+      allowed: true,
+      remaining: rule.limit,
+      retryAfterSeconds: 0,
+    };
+  }
+}
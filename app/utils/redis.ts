@@ -0,0 +1,75 @@
+import { createClient } from "redis";
+import type { Logger } from "@/app/utils/logger";
+
+// After Redis goes away, wait this long before connecting again
+const RECONNECT_DELAY_MS = 30_000;
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+export interface RedisConnectionOptions {
+  url: string;
+  logger: Logger;
+  /** What the client is for, in log messages: "Redis key store error" */
+  purpose: string;
+  /** Logged when Redis can't be reached, saying what happens instead */
+  fallback: string;
+  connectTimeoutMs?: number;
+  /** Called when a connected client is dropped, e.g. to resubscribe later */
+  onDrop?: () => void;
+}
+
+/**
+ * A lazily connected Redis client, shared by every caller of the returned
+ * function. Once the client closes for good it is dropped, so the next call
+ * connects afresh; after a failed connect the next attempt waits
+ * RECONNECT_DELAY_MS, and calls resolve to undefined until then.
+ */
+export function redisConnection(
+  options: RedisConnectionOptions
+): () => Promise<RedisClient | undefined> {
+  let redis: Promise<RedisClient | undefined> | undefined;
+
+  async function connect(forget: () => void) {
+    const { url, logger, purpose, connectTimeoutMs } = options;
+    let connected = false;
+    const client = createClient({
+      url,
+      socket: {
+        connectTimeout: connectTimeoutMs,
+        reconnectStrategy: retries => (retries > 3 ? false : 500),
+      },
+    });
+    const drop = () => {
+      if (!connected) return;
+      connected = false;
+      forget();
+      options.onDrop?.();
+    };
+    client.on("error", error => {
+      logger.warn(`Redis ${purpose} error`, { message: error.message });
+      // The client closes for good once it stops retrying
+      if (!client.isOpen) drop();
+    });
+    client.on("end", drop);
+    try {
+      await client.connect();
+      connected = true;
+      return client;
+    } catch {
+      logger.warn(`Redis unavailable, ${options.fallback}`);
+      setTimeout(forget, RECONNECT_DELAY_MS).unref();
+      return undefined;
+    }
+  }
+
+  return () => {
+    if (!redis) {
+      // Lets the next call connect afresh, unless a newer client took over
+      const current: Promise<RedisClient | undefined> = connect(() => {
+        if (redis === current) redis = undefined;
+      });
+      redis = current;
+    }
+    return redis;
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  projectFields,
+  toTable,
+  truncateText,
+} from "@/app/utils/response-format";
+
+const meeting = {
+  id: "meeting-1",
+  title: "Intro to Git",
+  date: "2026-03-04T22:00:00Z",
+  image: { url: "https://images.ctfassets.net/git.png", width: 800 },
+  tags: ["git", "workshop"],
+};
+
+describe("projectFields", () => {
+  it("keeps the id and the requested fields, including nested paths", () => {
+    expect(projectFields(meeting, ["title", "image.url"])).toEqual({
+      id: "meeting-1",
+      title: "Intro to Git",
+      image: { url: "https://images.ctfassets.net/git.png" },
+    });
+  });
+
+  it("leaves out fields the item doesn't have", () => {
+    expect(projectFields(meeting, ["location", "image.alt"])).toEqual({
+      id: "meeting-1",
+    });
+  });
+
+  it("doesn't change the item when a field and its parent are both picked", () => {
+    projectFields(meeting, ["image.url", "image"]);
+
+    expect(meeting.image).toEqual({
+      url: "https://images.ctfassets.net/git.png",
+      width: 800,
+    });
+  });
+});
+
+describe("truncateText", () => {
+  it("cuts only prose fields, saying how much was cut", () => {
+    const item = { id: "a".repeat(20), description: "b".repeat(20) };
+
+    expect(truncateText(item, 5)).toEqual({
+      id: "a".repeat(20),
+      description: "bbbbb… [truncated 15 characters]",
+    });
+  });
+});
+
+describe("toTable", () => {
+  it("quotes CSV cells with commas, quotes or newlines", () => {
+    const csv = toTable(
+      [
+        { id: "1", title: 'Git, "the" basics' },
+        { id: "2", title: "Two\nlines", image: { url: "x.png" } },
+      ],
+      "csv"
+    );
+
+    expect(csv).toBe(
+      [
+        "id,title,image.url",
+        '1,"Git, ""the"" basics",',
+        '2,"Two\nlines",x.png',
+      ].join("\n")
+    );
+  });
+
+  it("escapes pipes and newlines in Markdown cells", () => {
+    expect(toTable([{ id: "1", title: "A | B\nC" }], "markdown-table")).toBe(
+      ["| id | title |", "| --- | --- |", "| 1 | A \\| B<br>C |"].join("\n")
+    );
+  });
+
+  it("joins arrays into one cell", () => {
+    expect(toTable([meeting], "csv").split("\n")[1]).toContain(
+      '"git, workshop"'
+    );
+  });
+
+  it("says when there is nothing to show", () => {
+    expect(toTable([], "markdown-table")).toBe("_No results_");
+  });
+});
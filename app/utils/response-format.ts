@@ -0,0 +1,154 @@
+import { z } from "zod";
+
+export const RESPONSE_FORMATS = [
+  "json",
+  "compact-json",
+  "markdown-table",
+  "csv",
+] as const;
+
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+/** Prose fields `maxTextLength` shortens; IDs, dates and URLs stay whole */
+const TRUNCATABLE_FIELDS = new Set([
+  "description",
+  "excerpt",
+  "content",
+  "details",
+]);
+
+/** Shared `fields` / `format` / `maxTextLength` parameters for the `query-*` tools */
+export const responseParams = {
+  fields: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Only return these fields of each result, e.g. ["title", "date", "image.url"]; id is always included'
+    ),
+  format: z
+    .enum(RESPONSE_FORMATS)
+    .optional()
+    .describe(
+      "json (default), compact-json without indentation, or markdown-table / csv with one row per result"
+    ),
+  maxTextLength: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "Cut description, excerpt, content and details longer than this many characters"
+    ),
+};
+
+export interface ResponseOptions {
+  fields?: string[];
+  format?: ResponseFormat;
+  maxTextLength?: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+function pick(
+  source: Record<string, unknown>,
+  [head, ...rest]: string[],
+  target: Record<string, unknown>
+) {
+  const value = source[head];
+  if (value === undefined) return;
+  if (!rest.length) {
+    target[head] = value;
+  } else if (isRecord(value)) {
+    // Copy, so picking "image" and "image.url" doesn't change the item
+    const nested = isRecord(target[head]) ? { ...target[head] } : {};
+    pick(value, rest, nested);
+    if (Object.keys(nested).length) target[head] = nested;
+  }
+}
+
+/**
+ * `item` with only `id` and `fields`, which may be dotted paths into nested
+ * objects ("image.url"). Fields the item doesn't have are left out.
+ */
+export function projectFields(
+  item: Record<string, unknown>,
+  fields: string[]
+): Record<string, unknown> {
+  const projected: Record<string, unknown> = { id: item.id };
+  for (const field of fields) pick(item, field.split("."), projected);
+  return projected;
+}
+
+/** Shortens long prose fields of `item`, saying how much was cut */
+export function truncateText(
+  item: Record<string, unknown>,
+  maxLength: number
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(item).map(([field, value]) => [
+      field,
+      TRUNCATABLE_FIELDS.has(field) &&
+      typeof value === "string" &&
+      value.length > maxLength
+        ? `${value.slice(0, maxLength)}… [truncated ${value.length - maxLength} characters]`
+        : value,
+    ])
+  );
+}
+
+/** Nested objects become dotted columns, e.g. `image.url` */
+function flatten(
+  item: Record<string, unknown>,
+  prefix = ""
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(item).flatMap(([key, value]) =>
+      isRecord(value)
+        ? Object.entries(flatten(value, `${prefix}${key}.`))
+        : [[`${prefix}${key}`, value]]
+    )
+  );
+}
+
+const cellText = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(cellText).join(", ");
+  return String(value);
+};
+
+const markdownCell = (value: unknown) =>
+  cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+const csvCell = (value: unknown) => {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per item, with a column for every field any item has, in the
+ * order they first appear.
+ */
+export function toTable(
+  items: Record<string, unknown>[],
+  format: "markdown-table" | "csv"
+): string {
+  const rows = items.map(item => flatten(item));
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+
+  if (format === "csv") {
+    return [columns, ...rows.map(row => columns.map(column => row[column]))]
+      .map(cells => cells.map(csvCell).join(","))
+      .join("\n");
+  }
+
+  if (!columns.length) return "_No results_";
+  return [
+    `| ${columns.map(markdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map(
+      row =>
+        `| ${columns.map(column => markdownCell(row[column])).join(" | ")} |`
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  BLOCKS,
+  type Block,
+  type Document,
+  type Text,
+} from "@contentful/rich-text-types";
+import { markdownToRichText, richTextToMarkdown } from "@/app/utils/rich-text";
+
+const text = (value: string): Text => ({
+  nodeType: "text",
+  value,
+  marks: [],
+  data: {},
+});
+
+const block = (nodeType: BLOCKS, ...content: (Block | Text)[]): Block => ({
+  nodeType,
+  data: {},
+  content,
+});
+
+const paragraph = (value: string) => block(BLOCKS.PARAGRAPH, text(value));
+
+const document = (...content: Block[]): Document => ({
+  nodeType: BLOCKS.DOCUMENT,
+  data: {},
+  content: content as Document["content"],
+});
+
+describe("richTextToMarkdown", () => {
+  it("escapes text that would read as formatting", () => {
+    const markdown = richTextToMarkdown(
+      document(
+        paragraph("5 * 3 = 15, see [1] and snake_case or _this_"),
+        paragraph("# not a heading"),
+        paragraph("1. not a list")
+      )
+    );
+
+    expect(markdown).toBe(
+      [
+        "5 \\* 3 = 15, see \\[1\\] and snake_case or \\_this\\_",
+        "\\# not a heading",
+        "1\\. not a list",
+      ].join("\n\n")
+    );
+  });
+
+  it("renders quotes inside list items", () => {
+    const markdown = richTextToMarkdown(
+      document(
+        block(
+          BLOCKS.UL_LIST,
+          block(
+            BLOCKS.LIST_ITEM,
+            paragraph("Item"),
+            block(BLOCKS.QUOTE, paragraph("Quoted"), paragraph("More"))
+          )
+        )
+      )
+    );
+
+    expect(markdown).toBe("- Item\n\n  > Quoted\n  >\n  > More");
+  });
+});
+
+describe("markdownToRichText", () => {
+  it("reads back what richTextToMarkdown writes", () => {
+    const original = document(
+      paragraph("5 * 3 = 15, see [1] and _this_ \\ that"),
+      paragraph("# not a heading"),
+      block(
+        BLOCKS.OL_LIST,
+        block(
+          BLOCKS.LIST_ITEM,
+          paragraph("- not a nested list"),
+          block(BLOCKS.QUOTE, paragraph("Quoted"))
+        ),
+        block(BLOCKS.LIST_ITEM, paragraph("Second"))
+      )
+    );
+
+    expect(markdownToRichText(richTextToMarkdown(original))).toEqual(original);
+  });
+});
@@ -0,0 +1,556 @@
+import {
+  BLOCKS,
+  INLINES,
+  MARKS,
+  Block,
+  Document,
+  Inline,
+  LIST_ITEM_BLOCKS,
+  Text,
+} from "@contentful/rich-text-types";
+import { toAbsoluteUrl } from "@/app/utils/images";
+
+type RichTextNode = Block | Inline | Text;
+
+const isText = (node: RichTextNode): node is Text => node.nodeType === "text";
+
+// Link targets are resolved entries/assets when the query `include` depth
+// reaches them, and bare `{ sys: { type: "Link" } }` objects otherwise
+const isResolved = (target: any): boolean =>
+  !!target && !!target.fields && target.sys?.type !== "Link";
+
+const entryLabel = (entry: any): string =>
+  entry.fields?.title || entry.fields?.name || entry.sys?.id || "entry";
+
+const entryUri = (entry: any): string | undefined => {
+  const contentTypeId = entry.sys?.contentType?.sys?.id;
+  if (!contentTypeId) return undefined;
+  if (contentTypeId === "blogPost" && entry.fields?.slug) {
+    return `contentful://blogPost/${entry.fields.slug}`;
+  }
+  return `contentful://${contentTypeId}/${entry.sys.id}`;
+};
+
+/**
+ * Backslash-escapes characters that would otherwise start formatting.
+ * Underscores inside words can't, so "snake_case" stays readable.
+ */
+const escapeText = (value: string): string =>
+  value.replace(/[\\`*\[\]~<]|(?<!\w)_|_(?!\w)/g, "\\$&");
+
+/** Escapes what would make the start of a line a heading, quote or list */
+const escapeLineStart = (line: string): string =>
+  line.replace(/^(\s*)([#>+=-]|\d+(?=[.)]))/, (_, indent, start) =>
+    /\d/.test(start) ? `${indent}${start}\\` : `${indent}\\${start}`
+  );
+
+function renderText(node: Text): string {
+  let value = node.value;
+  if (!value) return "";
+
+  const marks = new Set(node.marks.map(mark => mark.type));
+
+  if (marks.has(MARKS.CODE)) {
+    // Inline code can't carry other formatting
+    const fence = value.includes("`") ? "``" : "`";
+    return `${fence}${value}${fence}`;
+  }
+
+  // Keep surrounding whitespace outside the markers so "**bold **" stays valid
+  const [, leading, core, trailing] = value.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) return value;
+  value = escapeText(core);
+
+  if (marks.has(MARKS.BOLD)) value = `**${value}**`;
+  if (marks.has(MARKS.ITALIC)) value = `_${value}_`;
+  if (marks.has(MARKS.STRIKETHROUGH)) value = `~~${value}~~`;
+  if (marks.has(MARKS.UNDERLINE)) value = `<u>${value}</u>`;
+  if (marks.has(MARKS.SUPERSCRIPT)) value = `<sup>${value}</sup>`;
+  if (marks.has(MARKS.SUBSCRIPT)) value = `<sub>${value}</sub>`;
+
+  return `${leading}${value}${trailing}`;
+}
+
+function renderInline(node: RichTextNode): string {
+  if (isText(node)) return renderText(node);
+
+  const children = () =>
+    (node.content as RichTextNode[]).map(renderInline).join("");
+
+  switch (node.nodeType) {
+    case INLINES.HYPERLINK:
+      return `[${children()}](${node.data.uri})`;
+
+    case INLINES.ASSET_HYPERLINK: {
+      const asset = node.data.target;
+      const url = asset?.fields?.file?.url;
+      return isResolved(asset) && url
+        ? `[${children()}](${toAbsoluteUrl(url)})`
+        : children();
+    }
+
+    case INLINES.ENTRY_HYPERLINK: {
+      const entry = node.data.target;
+      const uri = isResolved(entry) ? entryUri(entry) : undefined;
+      return uri ? `[${children()}](${uri})` : children();
+    }
+
+    case INLINES.EMBEDDED_ENTRY: {
+      const entry = node.data.target;
+      if (!isResolved(entry)) return "";
+      const uri = entryUri(entry);
+      return uri ? `[${entryLabel(entry)}](${uri})` : entryLabel(entry);
+    }
+
+    default:
+      // Resource links and anything newer than this renderer
+      return "content" in node ? children() : "";
+  }
+}
+
+function renderInlines(nodes: RichTextNode[]): string {
+  // Soft line breaks (shift+enter in the editor) become Markdown hard breaks
+  return nodes.map(renderInline).join("").replace(/\n/g, "  \n");
+}
+
+function renderEmbeddedAsset(node: Block): string {
+  const asset = node.data.target;
+  if (!isResolved(asset) || !asset.fields.file?.url) return "";
+
+  const { file, title, description } = asset.fields;
+  const url = toAbsoluteUrl(file.url);
+  const label = description || title || file.fileName || "asset";
+
+  return file.contentType?.startsWith("image/")
+    ? `![${label}](${url})`
+    : `[${label}](${url})`;
+}
+
+function renderEmbeddedEntry(node: Block): string {
+  const entry = node.data.target;
+  if (!isResolved(entry)) return "";
+
+  const contentTypeId = entry.sys.contentType?.sys?.id ?? "entry";
+  const uri = entryUri(entry);
+  const label = uri ? `[${entryLabel(entry)}](${uri})` : entryLabel(entry);
+  const summary = entry.fields.excerpt || entry.fields.description;
+
+  const lines = [`> **${contentTypeId}:** ${label}`];
+  if (typeof summary === "string" && summary.trim()) {
+    lines.push(
+      ">",
+      ...summary
+        .trim()
+        .split("\n")
+        .map(line => `> ${line}`)
+    );
+  }
+  return lines.join("\n");
+}
+
+function renderTable(node: Block): string {
+  const rows = (node.content as Block[]).map(row =>
+    (row.content as Block[]).map(cell =>
+      (cell.content as Block[])
+        .map(paragraph => renderInlines(paragraph.content))
+        .join("<br>")
+        .replace(/ {2}\n/g, "<br>")
+        .replace(/\|/g, "\\|")
+    )
+  );
+  if (!rows.length) return "";
+
+  // GFM tables always need a header row; Contentful tables may not have one
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) =>
+    `| ${[...row, ...Array(width - row.length).fill("")].join(" | ")} |`;
+
+  const [header, ...body] = rows;
+  return [pad(header), pad(Array(width).fill("---")), ...body.map(pad)].join(
+    "\n"
+  );
+}
+
+function renderList(node: Block, ordered: boolean): string {
+  return (node.content as Block[])
+    .map((item, index) => {
+      const marker = ordered ? `${index + 1}. ` : "- ";
+      const body = renderBlocks(item.content as Block[]);
+      const [first, ...rest] = body.split("\n");
+      const indent = " ".repeat(marker.length);
+      return [
+        marker + first,
+        ...rest.map(line => (line ? indent + line : line)),
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+function renderBlock(node: Block): string {
+  switch (node.nodeType) {
+    case BLOCKS.PARAGRAPH: {
+      const children = node.content as RichTextNode[];
+      // Contentful has no code block node; a paragraph written entirely in
+      // the code mark is the closest equivalent
+      const textNodes = children.filter(isText);
+      const isCodeBlock =
+        textNodes.length === children.length &&
+        textNodes.some(child => child.value.trim()) &&
+        textNodes.every(
+          child =>
+            !child.value.trim() ||
+            child.marks.some(mark => mark.type === MARKS.CODE)
+        ) &&
+        textNodes
+          .map(child => child.value)
+          .join("")
+          .includes("\n");
+      if (isCodeBlock) {
+        return "```\n" + textNodes.map(child => child.value).join("") + "\n```";
+      }
+      return renderInlines(children)
+        .split("\n")
+        .map(escapeLineStart)
+        .join("\n");
+    }
+
+    case BLOCKS.HEADING_1:
+    case BLOCKS.HEADING_2:
+    case BLOCKS.HEADING_3:
+    case BLOCKS.HEADING_4:
+    case BLOCKS.HEADING_5:
+    case BLOCKS.HEADING_6: {
+      const level = Number(node.nodeType.slice(-1));
+      const text = (node.content as RichTextNode[])
+        .map(renderInline)
+        .join("")
+        .replace(/\n/g, " ");
+      return `${"#".repeat(level)} ${text}`;
+    }
+
+    case BLOCKS.UL_LIST:
+      return renderList(node, false);
+
+    case BLOCKS.OL_LIST:
+      return renderList(node, true);
+
+    case BLOCKS.QUOTE:
+      return renderBlocks(node.content as Block[])
+        .split("\n")
+        .map(line => (line ? `> ${line}` : ">"))
+        .join("\n");
+
+    case BLOCKS.HR:
+      return "---";
+
+    case BLOCKS.TABLE:
+      return renderTable(node);
+
+    case BLOCKS.EMBEDDED_ASSET:
+      return renderEmbeddedAsset(node);
+
+    case BLOCKS.EMBEDDED_ENTRY:
+      return renderEmbeddedEntry(node);
+
+    default:
+      // Embedded resources and unknown blocks: keep whatever text they carry
+      return renderBlocks((node.content ?? []) as Block[]);
+  }
+}
+
+function renderBlocks(nodes: Block[]): string {
+  return nodes
+    .map(renderBlock)
+    .filter(block => block.trim())
+    .join("\n\n");
+}
+
+/**
+ * Renders a Contentful rich-text document as GitHub-flavoured Markdown.
+ * Returns an empty string for missing or empty documents.
+ */
+export function richTextToMarkdown(document?: Document | null): string {
+  if (!document || document.nodeType !== BLOCKS.DOCUMENT) return "";
+  return renderBlocks(document.content).trim();
+}
+
+// Markdown -> rich text, for authoring tools that take Markdown input
+
+const textNode = (value: string, marks: MARKS[] = []): Text => ({
+  nodeType: "text",
+  value,
+  marks: marks.map(type => ({ type })),
+  data: {},
+});
+
+// Escaped characters are literal, including inside links and marks
+const INLINE_PATTERN =
+  /\\([!-/:-@[-`{-~])|\[((?:\\.|[^\]\\])+)\]\(([^)\s]+)\)|`([^`]+)`|\*\*((?:\\.|[^*\\])+?)\*\*|__((?:\\.|[^_\\])+?)__|~~((?:\\.|[^~\\])+?)~~|\*((?:\\.|[^*\s\\])(?:\\.|[^*\\])*?)\*|\b_((?:\\.|[^_\s\\])(?:\\.|[^_\\])*?)_\b/g;
+
+function parseInline(text: string, marks: MARKS[] = []): (Inline | Text)[] {
+  const nodes: (Inline | Text)[] = [];
+  let last = 0;
+
+  // Joins plain text onto the text before it, so escapes don't split nodes
+  const pushText = (value: string) => {
+    const previous = nodes[nodes.length - 1];
+    if (
+      previous?.nodeType === "text" &&
+      previous.marks.map(mark => mark.type).join() === marks.join()
+    ) {
+      previous.value += value;
+    } else {
+      nodes.push(textNode(value, marks));
+    }
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index! > last) {
+      pushText(text.slice(last, match.index));
+    }
+    const [
+      ,
+      escaped,
+      linkText,
+      uri,
+      code,
+      bold,
+      boldAlt,
+      strike,
+      italic,
+      italicAlt,
+    ] = match;
+
+    if (escaped !== undefined) {
+      pushText(escaped);
+    } else if (linkText !== undefined) {
+      nodes.push({
+        nodeType: INLINES.HYPERLINK,
+        data: { uri },
+        content: parseInline(linkText, marks).filter(isText),
+      });
+    } else if (code !== undefined) {
+      nodes.push(textNode(code, [...marks, MARKS.CODE]));
+    } else if ((bold ?? boldAlt) !== undefined) {
+      nodes.push(...parseInline(bold ?? boldAlt, [...marks, MARKS.BOLD]));
+    } else if (strike !== undefined) {
+      nodes.push(...parseInline(strike, [...marks, MARKS.STRIKETHROUGH]));
+    } else {
+      nodes.push(...parseInline(italic ?? italicAlt, [...marks, MARKS.ITALIC]));
+    }
+    last = match.index! + match[0].length;
+  }
+
+  if (last < text.length) pushText(text.slice(last));
+  // Rich text paragraphs need at least one text node
+  return nodes.length ? nodes : [textNode("")];
+}
+
+const paragraph = (text: string): Block => ({
+  nodeType: BLOCKS.PARAGRAPH,
+  data: {},
+  // Markdown hard breaks ("  \n") become soft line breaks; other newlines
+  // just wrap the source text
+  content: parseInline(
+    text
+      .replace(/ {2,}\n/g, "\u0000")
+      .replace(/\n/g, " ")
+      .replace(/\u0000/g, "\n")
+  ),
+});
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+/** Parses consecutive list lines, nesting items by indentation. */
+function parseList(lines: string[], start: number): [Block, number] {
+  const [, indent, marker] = lines[start].match(LIST_ITEM)!;
+  const ordered = /\d/.test(marker);
+  const list: Block = {
+    nodeType: ordered ? BLOCKS.OL_LIST : BLOCKS.UL_LIST,
+    data: {},
+    content: [],
+  };
+
+  let index = start;
+  while (index < lines.length) {
+    // Blank lines only separate items of a loose list
+    let next = index;
+    while (next < lines.length && !lines[next].trim()) next++;
+    const match = lines[next]?.match(LIST_ITEM);
+    if (!match || match[1].length < indent.length) break;
+    index = next;
+
+    if (match[1].length > indent.length) {
+      // A deeper item starts a list nested in the previous item
+      const [nested, next] = parseList(lines, index);
+      const previous = list.content[list.content.length - 1] as Block;
+      previous?.content.push(nested);
+      index = next;
+      continue;
+    }
+    if (/\d/.test(match[2]) !== ordered) break;
+
+    const item: Block = {
+      nodeType: BLOCKS.LIST_ITEM,
+      data: {},
+      content: [paragraph(match[3])],
+    };
+    list.content.push(item);
+
+    // Lines indented past the marker, such as a quote, continue the item
+    const contentIndent = " ".repeat(match[0].length - match[3].length);
+    const continues = (line: string) =>
+      !line.trim() || (line.startsWith(contentIndent) && !LIST_ITEM.test(line));
+    const body: string[] = [];
+    index++;
+    while (index < lines.length && continues(lines[index])) {
+      body.push(lines[index].slice(contentIndent.length));
+      index++;
+    }
+    item.content.push(
+      ...parseBlocks(body.join("\n")).filter(block =>
+        LIST_ITEM_BLOCKS.includes(block.nodeType as never)
+      )
+    );
+  }
+  return [list, index];
+}
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-+:?\s*\|)+\s*$/;
+
+const tableCells = (line: string): string[] =>
+  line
+    .trim()
+    .slice(1, -1)
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+/** A GFM table; the row above the `| --- |` separator is the header. */
+function parseTable(lines: string[]): Block {
+  const [header, , ...body] = lines;
+  const row = (line: string, cellType: BLOCKS): Block => ({
+    nodeType: BLOCKS.TABLE_ROW,
+    data: {},
+    content: tableCells(line).map(cell => ({
+      nodeType: cellType,
+      data: {},
+      content: cell.split(/<br\s*\/?>/).map(text => paragraph(text)) as Block[],
+    })),
+  });
+
+  return {
+    nodeType: BLOCKS.TABLE,
+    data: {},
+    content: [
+      row(header, BLOCKS.TABLE_HEADER_CELL),
+      ...body.map(line => row(line, BLOCKS.TABLE_CELL)),
+    ],
+  };
+}
+
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    if (line.startsWith("```")) {
+      const end = lines.indexOf("```", index + 1);
+      const code = lines.slice(index + 1, end < 0 ? undefined : end).join("\n");
+      blocks.push({
+        nodeType: BLOCKS.PARAGRAPH,
+        data: {},
+        content: [textNode(code, [MARKS.CODE])],
+      });
+      index = end < 0 ? lines.length : end + 1;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({
+        nodeType: `heading-${heading[1].length}` as BLOCKS,
+        data: {},
+        content: parseInline(heading[2].trim()),
+      });
+      index++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ nodeType: BLOCKS.HR, data: {}, content: [] });
+      index++;
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].startsWith(">")) {
+        quoted.push(lines[index].replace(/^>\s?/, ""));
+        index++;
+      }
+      blocks.push({
+        nodeType: BLOCKS.QUOTE,
+        data: {},
+        // Quotes may only contain paragraphs
+        content: parseBlocks(quoted.join("\n")).filter(
+          block => block.nodeType === BLOCKS.PARAGRAPH
+        ),
+      });
+      continue;
+    }
+
+    if (TABLE_ROW.test(line) && TABLE_SEPARATOR.test(lines[index + 1] ?? "")) {
+      const rows: string[] = [];
+      while (index < lines.length && TABLE_ROW.test(lines[index])) {
+        rows.push(lines[index]);
+        index++;
+      }
+      blocks.push(parseTable(rows));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, next] = parseList(lines, index);
+      blocks.push(list);
+      index = next;
+      continue;
+    }
+
+    const text: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !/^(#{1,6}\s|>|```)/.test(lines[index]) &&
+      !LIST_ITEM.test(lines[index])
+    ) {
+      text.push(lines[index]);
+      index++;
+    }
+    blocks.push(paragraph(text.join("\n")));
+  }
+
+  return blocks;
+}
+
+/**
+ * Converts Markdown to a Contentful rich-text document: headings, lists,
+ * quotes, rules, tables, fenced code, links and bold/italic/strikethrough/code
+ * marks.
+ * Anything else is kept as plain text.
+ */
+export function markdownToRichText(markdown: string): Document {
+  return {
+    nodeType: BLOCKS.DOCUMENT,
+    data: {},
+    content: parseBlocks(markdown.trim()) as Document["content"],
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSearchIndex,
+  type SearchDocument,
+} from "@/app/utils/search-index";
+
+const documents: SearchDocument<{ type: string }>[] = [
+  {
+    id: "pytorch",
+    fields: {
+      title: "Intro to PyTorch",
+      body: "Train a small neural network on your laptop.",
+    },
+    data: { type: "meeting" },
+  },
+  {
+    id: "ml-recap",
+    fields: {
+      title: "Semester recap",
+      body: "We covered PyTorch, scikit-learn and a lot of pizza.",
+    },
+    data: { type: "blogPost" },
+  },
+  {
+    id: "git",
+    fields: { title: "Git workshops", body: "Branches, merges and rebases." },
+    data: { type: "meeting" },
+  },
+];
+
+const index = createSearchIndex(documents, {
+  boosts: { title: 3, body: 1 },
+});
+
+const ids = (query: string) => index.search(query).map(hit => hit.id);
+
+describe("createSearchIndex", () => {
+  it("ranks title matches above body matches", () => {
+    expect(ids("pytorch")).toEqual(["pytorch", "ml-recap"]);
+  });
+
+  it("tolerates a typo in longer words", () => {
+    expect(ids("pytroch")).toEqual(["pytorch", "ml-recap"]);
+  });
+
+  it("matches the last word as a prefix", () => {
+    expect(ids("intro pytor")[0]).toBe("pytorch");
+  });
+
+  it("doesn't guess at typos in short words", () => {
+    expect(ids("gti")).toEqual([]);
+  });
+
+  it("matches plurals and singulars alike", () => {
+    expect(ids("workshop")).toEqual(["git"]);
+    expect(ids("recaps")).toEqual(["ml-recap"]);
+  });
+
+  it("scores a closer match higher", () => {
+    const [exact] = index.search("pytorch");
+    const [typo] = index.search("pytroch");
+
+    expect(exact.score).toBeGreaterThan(typo.score);
+  });
+
+  it("highlights matched words in the snippet", () => {
+    const [hit] = index.search("neural network");
+
+    expect(hit).toMatchObject({
+      matchedField: "body",
+      snippet: "Train a small **neural** **network** on your laptop.",
+    });
+  });
+
+  it("leaves out hits the filter rejects", () => {
+    const hits = index.search("pytorch", {
+      filter: data => data.type === "blogPost",
+    });
+
+    expect(hits.map(hit => hit.id)).toEqual(["ml-recap"]);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * A small in-process full-text index: BM25F ranking over weighted fields,
+ * typo-tolerant term matching and highlighted snippets.
+ */
+
+export interface SearchDocument<T = unknown> {
+  id: string;
+  /** Searchable text keyed by field name */
+  fields: Record<string, string>;
+  /** Returned untouched with each hit */
+  data: T;
+}
+
+export interface SearchHit<T = unknown> {
+  id: string;
+  score: number;
+  /** Best matching passage with matched words wrapped in `**` */
+  snippet: string;
+  /** Field the snippet was taken from */
+  matchedField: string;
+  data: T;
+}
+
+export interface SearchIndexOptions {
+  /** Relative weight of each field; unlisted fields weigh 1 */
+  boosts?: Record<string, number>;
+}
+
+interface Posting {
+  docIndex: number;
+  field: string;
+  frequency: number;
+}
+
+// BM25 defaults from the literature
+const K1 = 1.2;
+const B = 0.75;
+
+// Weight of a query term expanded to a near match instead of an exact one
+const PREFIX_WEIGHT = 0.8;
+const TYPO_WEIGHTS = [1, 0.7, 0.45];
+
+// A field that says exactly what was searched for ("Intro to PyTorch
+// Workshop") beats longer text that merely contains every term
+const EXACT_MATCH_BONUS = 1.5;
+
+const SNIPPET_LENGTH = 160;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have in into is it its of on " +
+    "or our that the their this to was we were will with"
+  ).split(" ")
+);
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+
+/** Lowercases, strips accents and applies a light plural stemmer. */
+export function normalizeTerm(word: string): string {
+  const term = word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/['’]s$/, "");
+  if (term.length > 4 && term.endsWith("ies")) return term.slice(0, -3) + "y";
+  if (term.length > 3 && term.endsWith("s") && !/(ss|us|is)$/.test(term)) {
+    return term.slice(0, -1);
+  }
+  return term;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD) ?? [])
+    .map(normalizeTerm)
+    .filter(term => term && !STOPWORDS.has(term));
+}
+
+/** Optimal string alignment distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+const allowedTypos = (term: string): number =>
+  term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+export function createSearchIndex<T>(
+  documents: SearchDocument<T>[],
+  options: SearchIndexOptions = {}
+) {
+  const boosts = options.boosts ?? {};
+  const postings = new Map<string, Posting[]>();
+  const fieldLengths = documents.map(() => new Map<string, number>());
+  const totalFieldLength = new Map<string, number>();
+  const exactPhrases = documents.map(() => new Set<string>());
+
+  documents.forEach((document, docIndex) => {
+    for (const [field, text] of Object.entries(document.fields)) {
+      const terms = tokenize(text ?? "");
+      fieldLengths[docIndex].set(field, terms.length);
+      if (terms.length) exactPhrases[docIndex].add(terms.join(" "));
+      totalFieldLength.set(
+        field,
+        (totalFieldLength.get(field) ?? 0) + terms.length
+      );
+
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      for (const [term, frequency] of frequencies) {
+        if (!postings.has(term)) postings.set(term, []);
+        postings.get(term)!.push({ docIndex, field, frequency });
+      }
+    }
+  });
+
+  const averageFieldLength = (field: string) =>
+    (totalFieldLength.get(field) ?? 0) / Math.max(documents.length, 1) || 1;
+
+  const idf = (term: string) => {
+    const documentFrequency = new Set(
+      postings.get(term)?.map(posting => posting.docIndex)
+    ).size;
+    return Math.log(
+      1 +
+        (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+  };
+
+  /** Indexed terms a query term should match, with their weights. */
+  function expand(queryTerm: string, isLast: boolean): Map<string, number> {
+    const matches = new Map<string, number>();
+    const maxTypos = allowedTypos(queryTerm);
+
+    for (const term of postings.keys()) {
+      let weight = 0;
+      if (term === queryTerm) {
+        weight = 1;
+      } else if (
+        // Match prefixes of the word being typed: "pytor" -> "pytorch"
+        isLast &&
+        queryTerm.length >= 3 &&
+        term.startsWith(queryTerm)
+      ) {
+        weight = PREFIX_WEIGHT;
+      } else if (maxTypos) {
+        const distance = editDistance(queryTerm, term, maxTypos);
+        if (distance <= maxTypos) weight = TYPO_WEIGHTS[distance];
+      }
+      if (weight) matches.set(term, weight);
+    }
+    return matches;
+  }
+
+  function snippetFor(
+    document: SearchDocument<T>,
+    matchedTerms: Set<string>
+  ): { field: string; snippet: string } {
+    let best = { field: "", count: 0, firstMatch: 0 };
+
+    for (const [field, text] of Object.entries(document.fields)) {
+      if (!text) continue;
+      let count = 0;
+      let firstMatch = -1;
+      for (const match of text.matchAll(WORD)) {
+        if (matchedTerms.has(normalizeTerm(match[0]))) {
+          count++;
+          if (firstMatch < 0) firstMatch = match.index!;
+        }
+      }
+      // Prefer the field with most matches, then the more descriptive field
+      if (
+        count > best.count ||
+        (count === best.count && count > 0 && text.length > 80)
+      ) {
+        best = { field, count, firstMatch };
+      }
+    }
+
+    const field = best.field || Object.keys(document.fields)[0];
+    const text = (document.fields[field] ?? "").replace(/\s+/g, " ");
+    if (!best.count) {
+      return { field, snippet: text.slice(0, SNIPPET_LENGTH) };
+    }
+
+    // Centre the window a little before the first match, on a word boundary
+    let start = Math.max(0, best.firstMatch - SNIPPET_LENGTH / 4);
+    if (start > 0) start = text.indexOf(" ", start) + 1;
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(" ", end);
+      if (lastSpace > start) end = lastSpace;
+    }
+
+    const highlighted = text
+      .slice(start, end)
+      .replace(WORD, word =>
+        matchedTerms.has(normalizeTerm(word)) ? `**${word}**` : word
+      );
+
+    return {
+      field,
+      snippet: `${start > 0 ? "…" : ""}${highlighted}${end < text.length ? "…" : ""}`,
+    };
+  }
+
+  return {
+    size: documents.length,
+
+    search(
+      query: string,
+      searchOptions: { filter?: (data: T) => boolean } = {}
+    ): SearchHit<T>[] {
+      const queryPhrase = tokenize(query).join(" ");
+      const queryTerms = [...new Set(tokenize(query))];
+      const scores = new Map<number, number>();
+      const matchedTerms = new Map<number, Set<string>>();
+
+      queryTerms.forEach((queryTerm, position) => {
+        const expansions = expand(
+          queryTerm,
+          position === queryTerms.length - 1
+        );
+        // Each document scores a query term once, through its best expansion
+        const best = new Map<number, number>();
+
+        for (const [term, weight] of expansions) {
+          const termIdf = idf(term);
+          const weightedFrequency = new Map<number, number>();
+
+          for (const posting of postings.get(term) ?? []) {
+            const length =
+              fieldLengths[posting.docIndex].get(posting.field) ?? 0;
+            const normalized =
+              posting.frequency /
+              (1 - B + (B * length) / averageFieldLength(posting.field));
+            weightedFrequency.set(
+              posting.docIndex,
+              (weightedFrequency.get(posting.docIndex) ?? 0) +
+                (boosts[posting.field] ?? 1) * normalized
+            );
+          }
+
+          for (const [docIndex, frequency] of weightedFrequency) {
+            const score =
+              weight * termIdf * ((frequency * (K1 + 1)) / (frequency + K1));
+            if (score > (best.get(docIndex) ?? 0)) best.set(docIndex, score);
+            if (!matchedTerms.has(docIndex))
+              matchedTerms.set(docIndex, new Set());
+            matchedTerms.get(docIndex)!.add(term);
+          }
+        }
+
+        for (const [docIndex, score] of best) {
+          scores.set(docIndex, (scores.get(docIndex) ?? 0) + score);
+        }
+      });
+
+      for (const [docIndex, score] of scores) {
+        if (exactPhrases[docIndex].has(queryPhrase)) {
+          scores.set(docIndex, score * EXACT_MATCH_BONUS);
+        }
+      }
+
+      return [...scores.entries()]
+        .filter(([docIndex]) =>
+          searchOptions.filter
+            ? searchOptions.filter(documents[docIndex].data)
+            : true
+        )
+        .sort((a, b) => b[1] - a[1])
+        .map(([docIndex, score]) => {
+          const document = documents[docIndex];
+          const { field, snippet } = snippetFor(
+            document,
+            matchedTerms.get(docIndex)!
+          );
+          return {
+            id: document.id,
+            score: Math.round(score * 1000) / 1000,
+            snippet,
+            matchedField: field,
+            data: document.data,
+          };
+        });
+    },
+  };
+}
+
+export type SearchIndex<T> = ReturnType<typeof createSearchIndex<T>>;
@@ -0,0 +1,214 @@
+import {
+  getAllHackathons,
+  getAllLandingPageGraphics,
+  getAllMeetings,
+  getAllPosts,
+  getCurrentEboardMembers,
+  getParallaxBanners,
+  getPastEboardMembers,
+} from "@/app/utils/contentful";
+import { getHackathonTiming } from "@/app/utils/hackathon-status";
+import { describeImage } from "@/app/utils/images";
+import { richTextToMarkdown } from "@/app/utils/rich-text";
+import {
+  createSearchIndex,
+  type SearchDocument,
+  type SearchIndex,
+} from "@/app/utils/search-index";
+import type { SearchResultData } from "@/app/utils/tool-output";
+
+export const SEARCHABLE_CONTENT_TYPES = [
+  "blogPost",
+  "meeting",
+  "eboardMember",
+  "hackathon",
+  "landingPageGraphics",
+  "parallaxBanner",
+] as const;
+
+export type SearchableContentType = (typeof SEARCHABLE_CONTENT_TYPES)[number];
+
+// Title > excerpt/description > body
+const FIELD_BOOSTS = { title: 3, summary: 2, body: 1 };
+
+// Rebuilding is cheap but not free; webhooks reset the index immediately
+const INDEX_TTL_MS = 60 * 1000;
+
+const join = (...parts: (string | undefined)[]) =>
+  parts.filter(Boolean).join("\n");
+
+/** Rich text as prose, so link URLs and markup don't match or clutter snippets */
+const bodyText = (document: Parameters<typeof richTextToMarkdown>[0]) =>
+  richTextToMarkdown(document)
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<\/?\w+>|[*_~`#>|]+/g, " ")
+    .replace(/^\s*-{3,}\s*$/gm, "");
+
+async function buildDocuments(
+  locale?: string
+): Promise<SearchDocument<SearchResultData>[]> {
+  const [posts, meetings, current, past, hackathons, graphics, banners] =
+    await Promise.all([
+      getAllPosts({ locale }),
+      getAllMeetings({ locale }),
+      getCurrentEboardMembers({ locale }),
+      getPastEboardMembers({ locale }),
+      getAllHackathons({ locale }),
+      getAllLandingPageGraphics({ locale }),
+      getParallaxBanners({ locale }),
+    ]);
+
+  return [
+    ...posts.map(post => ({
+      id: post.sys.id,
+      fields: {
+        title: post.fields.title,
+        summary: join(post.fields.excerpt, post.fields.author),
+        body: bodyText(post.fields.content),
+      },
+      data: {
+        id: post.sys.id,
+        type: "blogPost" as const,
+        title: post.fields.title,
+        slug: post.fields.slug,
+        excerpt: post.fields.excerpt,
+        author: post.fields.author,
+      },
+    })),
+    ...meetings.map(meeting => ({
+      id: meeting.sys.id,
+      fields: {
+        title: meeting.fields.title,
+        summary: join(
+          meeting.fields.description,
+          meeting.fields.meetingLocation
+        ),
+      },
+      data: {
+        id: meeting.sys.id,
+        type: "meeting" as const,
+        title: meeting.fields.title,
+        date: meeting.fields.date,
+        description: meeting.fields.description,
+      },
+    })),
+    ...[...current, ...past].map(member => ({
+      id: member.sys.id,
+      fields: {
+        title: member.fields.name,
+        summary: join(member.fields.position, member.fields.year),
+        body: member.fields.description,
+      },
+      data: {
+        id: member.sys.id,
+        type: "eboardMember" as const,
+        title: member.fields.name,
+        name: member.fields.name,
+        position: member.fields.position,
+        memberType: member.fields.memberType,
+      },
+    })),
+    ...hackathons.map(hackathon => ({
+      id: hackathon.sys.id,
+      fields: {
+        title: hackathon.fields.title,
+        summary: hackathon.fields.description,
+        body: bodyText(hackathon.fields.details),
+      },
+      data: {
+        id: hackathon.sys.id,
+        type: "hackathon" as const,
+        title: hackathon.fields.title,
+        description: hackathon.fields.description,
+        status: getHackathonTiming(hackathon).status,
+      },
+    })),
+    ...graphics.map(graphic => ({
+      id: graphic.sys.id,
+      fields: {
+        title: graphic.fields.title,
+        summary: graphic.fields.description ?? "",
+      },
+      data: {
+        id: graphic.sys.id,
+        type: "landingPageGraphics" as const,
+        title: graphic.fields.title,
+        description: graphic.fields.description,
+        image:
+          describeImage(graphic.fields.image) ??
+          describeImage(graphic.fields.graphic),
+      },
+    })),
+    ...banners.map(banner => ({
+      id: banner.sys.id,
+      fields: {
+        title: banner.fields.title,
+        summary: banner.fields.link ?? "",
+      },
+      data: {
+        id: banner.sys.id,
+        type: "parallaxBanner" as const,
+        title: banner.fields.title,
+        link: banner.fields.link,
+        image: describeImage(banner.fields.image),
+      },
+    })),
+  ];
+}
+
+// One index per locale; "" is the default locale
+const indexes = new Map<
+  string,
+  { builtAt: number; index: Promise<SearchIndex<SearchResultData>> }
+>();
+
+function getIndex(locale = ""): Promise<SearchIndex<SearchResultData>> {
+  let index = indexes.get(locale);
+  if (!index || Date.now() - index.builtAt > INDEX_TTL_MS) {
+    const pending = buildDocuments(locale || undefined).then(documents =>
+      createSearchIndex(documents, { boosts: FIELD_BOOSTS })
+    );
+    // Don't keep a failed build around
+    pending.catch(() => {
+      if (indexes.get(locale)?.index === pending) indexes.delete(locale);
+    });
+    index = { builtAt: Date.now(), index: pending };
+    indexes.set(locale, index);
+  }
+  return index.index;
+}
+
+/** Forces the next search to rebuild the indexes from fresh content. */
+export function resetSearchIndex() {
+  indexes.clear();
+}
+
+/**
+ * Ranked search across every content type, including rich-text bodies.
+ * At most `limit` results are returned per content type, in `locale` if
+ * given.
+ */
+export async function searchContent(
+  query: string,
+  options: {
+    contentTypes?: SearchableContentType[];
+    limit?: number;
+    locale?: string;
+  } = {}
+) {
+  const contentTypes = new Set(
+    options.contentTypes ?? SEARCHABLE_CONTENT_TYPES
+  );
+  const limit = options.limit ?? 5;
+
+  const hits = (await getIndex(options.locale)).search(query, {
+    filter: data => contentTypes.has(data.type),
+  });
+
+  const perType = new Map<SearchableContentType, number>();
+  return hits.filter(hit => {
+    const count = perType.get(hit.data.type) ?? 0;
+    perType.set(hit.data.type, count + 1);
+    return count < limit;
+  });
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  ownsSession,
+  trackSessionOwner,
+  withSessionOwner,
+} from "@/app/utils/session-owners";
+
+const open = (sessionId: string, owner?: string) => {
+  const start = () =>
+    trackSessionOwner({ type: "SESSION_STARTED", transport: "SSE", sessionId });
+  if (owner) withSessionOwner(owner, start);
+  else start();
+};
+
+describe("session owners", () => {
+  it("accepts messages only from the key that opened the session", async () => {
+    open("session-a", "owner-hash");
+
+    expect(await ownsSession("session-a", "owner-hash")).toBe(true);
+    expect(await ownsSession("session-a", "other-hash")).toBe(false);
+    expect(await ownsSession("session-a", "anonymous")).toBe(false);
+  });
+
+  it("rejects sessions it doesn't know", async () => {
+    expect(await ownsSession("made-up", "owner-hash")).toBe(false);
+  });
+
+  it("forgets sessions once they end", async () => {
+    open("session-b", "owner-hash");
+    trackSessionOwner({
+      type: "SESSION_ENDED",
+      transport: "SSE",
+      sessionId: "session-b",
+    });
+
+    expect(await ownsSession("session-b", "owner-hash")).toBe(false);
+  });
+
+  it("gives sessions opened outside a request no owner", async () => {
+    open("session-c");
+
+    expect(await ownsSession("session-c", "anonymous")).toBe(false);
+  });
+});
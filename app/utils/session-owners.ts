@@ -0,0 +1,94 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { env } from "@/config/env";
+import { Logger } from "@/app/utils/logger";
+import { redisConnection } from "@/app/utils/redis";
+
+const logger = new Logger("SessionOwners");
+
+const KEY_PREFIX = "mcp:session-owner:";
+
+// Sessions end well before this; it only clears records a crash left behind
+const OWNER_TTL_SECONDS = 24 * 60 * 60;
+
+// Messages for an SSE session can reach any instance, so owners go to Redis
+const getRedis = env.REDIS_URL
+  ? redisConnection({
+      url: env.REDIS_URL,
+      logger,
+      purpose: "session owner",
+      fallback: "SSE sessions only accept messages on this instance",
+    })
+  : async () => undefined;
+
+const localOwners = new Map<string, string>();
+
+// Who the request being handled authenticated as
+const currentOwner = new AsyncLocalStorage<string>();
+
+/**
+ * Runs `fn` so that SSE sessions it opens belong to `owner`, the hash of
+ * the API key the request authenticated with.
+ */
+export function withSessionOwner<T>(owner: string, fn: () => T): T {
+  return currentOwner.run(owner, fn);
+}
+
+async function record(sessionId: string, owner: string) {
+  localOwners.set(sessionId, owner);
+  const client = await getRedis();
+  await client?.set(KEY_PREFIX + sessionId, owner, { EX: OWNER_TTL_SECONDS });
+}
+
+async function forget(sessionId: string) {
+  localOwners.delete(sessionId);
+  const client = await getRedis();
+  await client?.del(KEY_PREFIX + sessionId);
+}
+
+/**
+ * MCP adapter session events: remembers who opened each SSE session while
+ * it is open. Sessions opened outside withSessionOwner have no owner.
+ */
+export function trackSessionOwner(event: {
+  type: string;
+  transport?: string;
+  sessionId?: string;
+}) {
+  const { sessionId } = event;
+  if (event.transport !== "SSE" || !sessionId) return;
+
+  const owner = currentOwner.getStore();
+  const update =
+    event.type === "SESSION_STARTED" && owner
+      ? record(sessionId, owner)
+      : event.type === "SESSION_ENDED"
+        ? forget(sessionId)
+        : undefined;
+  update?.catch(error =>
+    logger.warn("Failed to update SSE session owner", {
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+/**
+ * Whether `owner` opened the SSE session `sessionId`. Unknown sessions
+ * belong to no one, so a made-up or expired ID is never accepted.
+ */
+export async function ownsSession(
+  sessionId: string,
+  owner: string
+): Promise<boolean> {
+  const local = localOwners.get(sessionId);
+  if (local) return local === owner;
+
+  try {
+    const client = await getRedis();
+    return (await client?.get(KEY_PREFIX + sessionId)) === owner;
+  } catch (error) {
+    logger.warn("SSE session owner lookup failed, rejecting the message", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
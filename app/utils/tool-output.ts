@@ -0,0 +1,637 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  EmbeddedResource,
+  ImageContent,
+  ListToolsResult,
+  TextContent,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  BlogPost,
+  EboardMember,
+  Hackathon,
+  LandingPageGraphic,
+  Meeting,
+  ParallaxBanner,
+} from "@/app/utils/contentful";
+import { getHackathonTiming } from "@/app/utils/hackathon-status";
+import { describeImage, type ImageTransform } from "@/app/utils/images";
+import { toJsonSchema } from "@/app/utils/json-schema";
+import {
+  projectFields,
+  toTable,
+  truncateText,
+  type ResponseOptions,
+} from "@/app/utils/response-format";
+import { richTextToMarkdown } from "@/app/utils/rich-text";
+import { SEARCHABLE_CONTENT_TYPES } from "@/app/utils/search";
+
+// ENTRIES - What tools and resources return for each content type
+
+const imageOutputSchema = z.object({
+  assetId: z.string().optional(),
+  url: z.string(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  alt: z.string(),
+  contentType: z.string().optional(),
+  srcSet: z.string().optional(),
+});
+
+const entrySys = {
+  id: z.string(),
+  publishStatus: z
+    .enum(["draft", "changed", "published"])
+    .optional()
+    .describe("Only set when read with preview"),
+};
+
+const blogPostSchema = z.object({
+  ...entrySys,
+  title: z.string().optional(),
+  slug: z.string().optional(),
+  excerpt: z.string().optional(),
+  author: z.string().optional(),
+  publishDate: z.string().optional(),
+  coverImage: imageOutputSchema.nullable(),
+});
+
+const blogPostContentSchema = blogPostSchema.extend({
+  content: z.string().describe("The body as Markdown"),
+});
+
+const meetingSchema = z.object({
+  ...entrySys,
+  title: z.string().optional(),
+  date: z.string().optional(),
+  description: z.string().optional(),
+  meetingLocation: z.string().optional(),
+  slidesUrl: z.string().optional(),
+  recording: z.string().optional(),
+  resourcesUrl: z.string().optional(),
+  image: imageOutputSchema.nullable(),
+});
+
+const eboardMemberSchema = z.object({
+  ...entrySys,
+  name: z.string().optional(),
+  position: z.string().optional(),
+  description: z.string().optional(),
+  linkedin: z.string().optional(),
+  github: z.string().optional(),
+  year: z.string().optional(),
+  memberType: z.enum(["current", "past"]).optional(),
+  image: imageOutputSchema.nullable(),
+});
+
+const academicYear = z
+  .string()
+  .nullable()
+  .describe('Academic year such as "2024-2025"; null when unknown');
+
+const eboardHistorySchema = z.object({
+  rosters: z.array(
+    z.object({
+      year: academicYear,
+      members: z.array(
+        z.object({
+          personId: z.string(),
+          name: z.string(),
+          position: z.string(),
+        })
+      ),
+    })
+  ),
+  positions: z.array(
+    z.object({
+      position: z.string(),
+      holders: z.array(
+        z.object({
+          year: academicYear,
+          personId: z.string(),
+          name: z.string(),
+        })
+      ),
+    })
+  ),
+  people: z.array(
+    z.object({
+      personId: z
+        .string()
+        .describe("The same for one person across years and entries"),
+      name: z.string(),
+      linkedin: z.string().optional(),
+      github: z.string().optional(),
+      terms: z.array(z.object({ year: academicYear, position: z.string() })),
+    })
+  ),
+});
+
+const hackathonStatus = z.enum(["ongoing", "upcoming", "past"]);
+
+const hackathonSchema = z.object({
+  ...entrySys,
+  title: z.string().optional(),
+  slug: z.string().optional(),
+  description: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  status: hackathonStatus.nullable(),
+  statusSource: z.enum(["computed", "override"]),
+  computedStatus: hackathonStatus.nullable(),
+  daysUntilStart: z.number().nullable(),
+  daysRemaining: z.number().nullable(),
+  registrationLink: z.string().optional(),
+  image: imageOutputSchema.nullable(),
+  details: z.string().optional().describe("The details as Markdown"),
+});
+
+const graphicSchema = z.object({
+  ...entrySys,
+  title: z.string().optional(),
+  description: z.string().optional(),
+  image: imageOutputSchema.nullable(),
+});
+
+const bannerSchema = z.object({
+  ...entrySys,
+  title: z.string().optional(),
+  link: z.string().optional(),
+  image: imageOutputSchema.nullable(),
+});
+
+export type BlogPostOutput = z.infer<typeof blogPostSchema>;
+export type BlogPostContentOutput = z.infer<typeof blogPostContentSchema>;
+export type MeetingOutput = z.infer<typeof meetingSchema>;
+export type EboardMemberOutput = z.infer<typeof eboardMemberSchema>;
+export type HackathonOutput = z.infer<typeof hackathonSchema>;
+export type GraphicOutput = z.infer<typeof graphicSchema>;
+export type BannerOutput = z.infer<typeof bannerSchema>;
+
+export const serializeBlogPost = (
+  post: BlogPost,
+  images?: ImageTransform
+): BlogPostOutput => ({
+  id: post.sys.id,
+  publishStatus: post.sys.publishStatus,
+  title: post.fields.title,
+  slug: post.fields.slug,
+  excerpt: post.fields.excerpt,
+  author: post.fields.author,
+  publishDate: post.fields.publishDate,
+  coverImage: describeImage(post.fields.coverImage, images),
+});
+
+export const serializeBlogPostContent = (
+  post: BlogPost
+): BlogPostContentOutput => ({
+  ...serializeBlogPost(post),
+  content: richTextToMarkdown(post.fields.content),
+});
+
+export const serializeMeeting = (
+  meeting: Meeting,
+  images?: ImageTransform
+): MeetingOutput => ({
+  id: meeting.sys.id,
+  publishStatus: meeting.sys.publishStatus,
+  title: meeting.fields.title,
+  date: meeting.fields.date,
+  description: meeting.fields.description,
+  meetingLocation: meeting.fields.meetingLocation,
+  slidesUrl: meeting.fields.slidesUrl,
+  recording: meeting.fields.recording,
+  resourcesUrl: meeting.fields.resourcesUrl,
+  image: describeImage(meeting.fields.image, images),
+});
+
+export const serializeEboardMember = (
+  member: EboardMember,
+  images?: ImageTransform
+): EboardMemberOutput => ({
+  id: member.sys.id,
+  publishStatus: member.sys.publishStatus,
+  name: member.fields.name,
+  position: member.fields.position,
+  description: member.fields.description,
+  linkedin: member.fields.linkedin,
+  github: member.fields.github,
+  year: member.fields.year,
+  memberType: member.fields.memberType,
+  image: describeImage(member.fields.image, images),
+});
+
+export const serializeHackathon = (
+  hackathon: Hackathon,
+  {
+    images,
+    includeBody = false,
+  }: { images?: ImageTransform; includeBody?: boolean } = {}
+): HackathonOutput => ({
+  id: hackathon.sys.id,
+  publishStatus: hackathon.sys.publishStatus,
+  title: hackathon.fields.title,
+  slug: hackathon.fields.slug,
+  description: hackathon.fields.description,
+  startDate: hackathon.fields.startDate,
+  endDate: hackathon.fields.endDate,
+  ...getHackathonTiming(hackathon),
+  registrationLink: hackathon.fields.registrationLink,
+  image: describeImage(hackathon.fields.image, images),
+  ...(includeBody && {
+    details: richTextToMarkdown(hackathon.fields.details),
+  }),
+});
+
+export const serializeGraphic = (
+  graphic: LandingPageGraphic,
+  images?: ImageTransform
+): GraphicOutput => ({
+  id: graphic.sys.id,
+  publishStatus: graphic.sys.publishStatus,
+  title: graphic.fields.title,
+  description: graphic.fields.description,
+  image:
+    describeImage(graphic.fields.image, images) ??
+    describeImage(graphic.fields.graphic, images),
+});
+
+export const serializeBanner = (
+  banner: ParallaxBanner,
+  images?: ImageTransform
+): BannerOutput => ({
+  id: banner.sys.id,
+  publishStatus: banner.sys.publishStatus,
+  title: banner.fields.title,
+  link: banner.fields.link,
+  image: describeImage(banner.fields.image, images),
+});
+
+// SEARCH - One summary shape per content type, told apart by `type`
+
+const searchSummaries = {
+  blogPost: z.object({
+    id: z.string(),
+    type: z.literal("blogPost"),
+    title: z.string().optional(),
+    slug: z.string().optional(),
+    excerpt: z.string().optional(),
+    author: z.string().optional(),
+  }),
+  meeting: z.object({
+    id: z.string(),
+    type: z.literal("meeting"),
+    title: z.string().optional(),
+    date: z.string().optional(),
+    description: z.string().optional(),
+  }),
+  eboardMember: z.object({
+    id: z.string(),
+    type: z.literal("eboardMember"),
+    title: z.string().optional(),
+    name: z.string().optional(),
+    position: z.string().optional(),
+    memberType: z.enum(["current", "past"]).optional(),
+  }),
+  hackathon: z.object({
+    id: z.string(),
+    type: z.literal("hackathon"),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    status: hackathonStatus.nullable(),
+  }),
+  landingPageGraphics: z.object({
+    id: z.string(),
+    type: z.literal("landingPageGraphics"),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    image: imageOutputSchema.nullable(),
+  }),
+  parallaxBanner: z.object({
+    id: z.string(),
+    type: z.literal("parallaxBanner"),
+    title: z.string().optional(),
+    link: z.string().optional(),
+    image: imageOutputSchema.nullable(),
+  }),
+};
+
+export type SearchResultData = z.infer<
+  (typeof searchSummaries)[keyof typeof searchSummaries]
+>;
+
+const hitFields = {
+  score: z.number(),
+  matchedField: z.string(),
+  snippet: z.string().describe("The matched text, matched words in bold"),
+};
+
+const searchResultSchema = z.discriminatedUnion("type", [
+  searchSummaries.blogPost.extend(hitFields),
+  searchSummaries.meeting.extend(hitFields),
+  searchSummaries.eboardMember.extend(hitFields),
+  searchSummaries.hackathon.extend(hitFields),
+  searchSummaries.landingPageGraphics.extend(hitFields),
+  searchSummaries.parallaxBanner.extend(hitFields),
+]);
+
+// REPORTS
+
+const periodCounts = (description: string) =>
+  z
+    .array(z.object({ period: z.string(), count: z.number().int() }))
+    .describe(description);
+
+const activityReportSchema = z.object({
+  generatedAt: z.string(),
+  lastUpdated: z
+    .string()
+    .nullable()
+    .describe("When the newest reported entry last changed"),
+  timeZone: z.string(),
+  window: z.object({
+    from: z.string().nullable(),
+    to: z.string().nullable(),
+  }),
+  blogPosts: z.object({
+    total: z.number().int(),
+    perMonth: periodCounts('By publish date, e.g. "2025-09", oldest first'),
+    topAuthors: z.array(
+      z.object({ author: z.string(), count: z.number().int() })
+    ),
+  }),
+  meetings: z.object({
+    total: z.number().int(),
+    perSemester: periodCounts('e.g. "Fall 2025", oldest first'),
+    averageDaysBetween: z.number().nullable(),
+    materials: z
+      .object({
+        held: z.number().int(),
+        withSlides: z.number().int(),
+        withRecording: z.number().int(),
+        withSlidesOrRecording: z.number().int(),
+        slidesShare: z.number().nullable(),
+        recordingShare: z.number().nullable(),
+        slidesOrRecordingShare: z.number().nullable(),
+      })
+      .describe("Meetings that already happened; shares are fractions of held"),
+  }),
+  hackathons: z.object({
+    total: z.number().int(),
+    perYear: periodCounts("By start date, oldest first"),
+  }),
+});
+
+// TOOLS - Every tool's structuredContent
+
+const parameters = z
+  .record(z.unknown())
+  .describe("The arguments the tool ran with, including defaults");
+
+/**
+ * The envelope of the `query-*` tools around one page of `item`. Only `id`
+ * is certain to be there, since `fields` can leave out the rest.
+ */
+const pageOf = <
+  Q extends string,
+  T extends z.AnyZodObject,
+  E extends z.ZodRawShape = {},
+>(
+  query: Q,
+  item: T,
+  extra = {} as E
+) =>
+  z.object({
+    query: z.literal(query),
+    parameters,
+    ...extra,
+    count: z.number().int(),
+    total: z.number().int(),
+    offset: z.number().int(),
+    nextCursor: z
+      .string()
+      .nullable()
+      .describe("Pass back as cursor for the next page; null on the last"),
+    data: z.array(item.partial().extend({ id: z.string() })),
+  });
+
+const authoringResultSchema = z.object({
+  id: z.string(),
+  contentType: z.string(),
+  status: z.enum(["draft", "published", "changed"]),
+  version: z.number().int(),
+  fields: z
+    .record(z.unknown())
+    .describe("Field values in the default locale; rich text as Markdown"),
+});
+
+const writeOutput = <A extends string, T extends z.ZodTypeAny>(
+  action: A,
+  data: T
+) => z.object({ action: z.literal(action), data });
+
+const TOOL_OUTPUT_SCHEMAS = {
+  "query-blog-posts": pageOf("blog-posts", blogPostSchema),
+  "get-blog-post-content": z.object({
+    query: z.literal("blog-post-content"),
+    parameters,
+    data: blogPostContentSchema,
+  }),
+  "query-meetings": pageOf("meetings", meetingSchema, {
+    timeZone: z.string(),
+    window: z.object({
+      from: z.string().nullable(),
+      to: z.string().nullable(),
+    }),
+  }),
+  "query-eboard-members": pageOf("eboard-members", eboardMemberSchema),
+  "get-eboard-history": z.object({
+    query: z.literal("eboard-history"),
+    parameters,
+    count: z.number().int().describe("Terms matching the filters"),
+    ...eboardHistorySchema.shape,
+  }),
+  "query-hackathons": pageOf("hackathons", hackathonSchema),
+  "query-graphics": pageOf("landing-page-graphics", graphicSchema),
+  "query-banners": pageOf("parallax-banners", bannerSchema),
+  "get-image": z.object({
+    query: z.literal("image"),
+    parameters,
+    data: imageOutputSchema.extend({ bytes: z.number().int() }),
+  }),
+  "search-content": z.object({
+    searchQuery: z.string(),
+    contentTypes: z.array(z.enum(SEARCHABLE_CONTENT_TYPES)),
+    locale: z.string().optional(),
+    totalResults: z.number().int(),
+    results: z.array(searchResultSchema),
+  }),
+  "get-activity-report": z.object({
+    query: z.literal("activity-report"),
+    parameters,
+    ...activityReportSchema.shape,
+  }),
+  "export-calendar": z.object({
+    query: z.literal("export-calendar"),
+    parameters,
+    count: z.number().int(),
+  }),
+  "create-draft-blog-post": writeOutput(
+    "create-draft-blog-post",
+    authoringResultSchema
+  ),
+  "create-meeting": writeOutput("create-meeting", authoringResultSchema),
+  "update-meeting-resources": writeOutput(
+    "update-meeting-resources",
+    authoringResultSchema
+  ),
+  "add-parallax-banner": writeOutput(
+    "add-parallax-banner",
+    authoringResultSchema.extend({ imageAssetId: z.string() })
+  ),
+};
+
+export type ToolName = keyof typeof TOOL_OUTPUT_SCHEMAS;
+
+type QueryToolName = {
+  [N in ToolName]: N extends `query-${string}` ? N : never;
+}[ToolName];
+
+export type ToolOutput<N extends ToolName> = z.infer<
+  (typeof TOOL_OUTPUT_SCHEMAS)[N]
+>;
+
+type ExtraContent = TextContent | ImageContent | EmbeddedResource;
+
+function validate(name: ToolName, output: unknown): Record<string, unknown> {
+  const parsed = TOOL_OUTPUT_SCHEMAS[name].safeParse(output);
+  if (!parsed.success) {
+    const detail = parsed.error.errors
+      .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`${name} output doesn't match its schema: ${detail}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * A tool result carrying `output` both as structuredContent and as JSON
+ * text for clients that only read text, followed by any `extra` content.
+ * Throws if `output` doesn't match the tool's output schema.
+ */
+export function toolOutput<N extends ToolName>(
+  name: N,
+  output: ToolOutput<N>,
+  ...extra: ExtraContent[]
+) {
+  const structuredContent = validate(name, output);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(structuredContent, null, 2),
+      },
+      ...extra,
+    ],
+    structuredContent,
+  };
+}
+
+/** Every field `fields` can pick, nested ones as dotted paths */
+function fieldPaths(item: z.AnyZodObject, prefix = ""): string[] {
+  return Object.entries(item.shape as z.ZodRawShape).flatMap(
+    ([key, schema]) => {
+      let inner: z.ZodTypeAny = schema;
+      while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+        inner = inner.unwrap();
+      }
+      const path = `${prefix}${key}`;
+      return inner instanceof z.ZodObject
+        ? [path, ...fieldPaths(inner, `${path}.`)]
+        : [path];
+    }
+  );
+}
+
+/**
+ * Like toolOutput for the `query-*` tools, with each result cut down to
+ * `fields` and its prose to `maxTextLength`, and the text in `format`. Table
+ * formats put everything but `data` in a JSON block before the table.
+ */
+export function pageOutput<N extends QueryToolName>(
+  name: N,
+  output: ToolOutput<N>,
+  { fields, format = "json", maxTextLength }: ResponseOptions,
+  ...extra: ExtraContent[]
+) {
+  const item = TOOL_OUTPUT_SCHEMAS[name].shape.data.element;
+  if (fields) {
+    const available = fieldPaths(item);
+    const unknown = fields.filter(field => !available.includes(field));
+    if (unknown.length) {
+      throw new Error(
+        `Unknown field${unknown.length > 1 ? "s" : ""} ${unknown.map(field => `"${field}"`).join(", ")}. Available fields: ${available.join(", ")}`
+      );
+    }
+  }
+
+  const { data, ...envelope } = validate(name, output);
+  const items = (data as Record<string, unknown>[]).map(result => {
+    const projected = fields ? projectFields(result, fields) : result;
+    return maxTextLength ? truncateText(projected, maxTextLength) : projected;
+  });
+  const structuredContent = { ...envelope, data: items };
+
+  const text =
+    format === "markdown-table" || format === "csv"
+      ? [JSON.stringify(envelope), toTable(items, format)]
+      : [
+          JSON.stringify(
+            structuredContent,
+            null,
+            format === "json" ? 2 : undefined
+          ),
+        ];
+
+  return {
+    content: [...text.map(text => ({ type: "text" as const, text })), ...extra],
+    structuredContent,
+  };
+}
+
+const outputSchemas = Object.fromEntries(
+  Object.entries(TOOL_OUTPUT_SCHEMAS).map(([name, schema]) => [
+    name,
+    toJsonSchema(schema),
+  ])
+);
+
+/**
+ * Adds each tool's `outputSchema` to tools/list, which this SDK version
+ * can't do itself. Wraps the handler the server installs when the first
+ * tool is registered, so it must be called before that.
+ */
+export function advertiseOutputSchemas(server: McpServer): McpServer {
+  const protocol = server.server;
+  const setRequestHandler = protocol.setRequestHandler.bind(protocol);
+
+  protocol.setRequestHandler = ((schema, handler) =>
+    setRequestHandler(
+      schema,
+      schema.shape.method.value === "tools/list"
+        ? async (request, extra) => {
+            const result = (await handler(request, extra)) as ListToolsResult;
+            return {
+              ...result,
+              tools: result.tools.map(tool =>
+                outputSchemas[tool.name]
+                  ? { ...tool, outputSchema: outputSchemas[tool.name] }
+                  : tool
+              ),
+            };
+          }
+        : handler
+    )) as typeof protocol.setRequestHandler;
+
+  return server;
+}
@@ -0,0 +1,112 @@
+import { timingSafeEqual } from "crypto";
+import { env } from "@/config/env";
+import { Logger } from "@/app/utils/logger";
+import { getPostById } from "@/app/utils/contentful";
+import { affectedUris, publishContentUpdate } from "@/app/utils/live-updates";
+
+const logger = new Logger("Webhook:Contentful");
+
+// Topics look like "ContentManagement.Entry.publish"
+const HANDLED_ACTIONS = new Set([
+  "publish",
+  "unpublish",
+  "delete",
+  "archive",
+  "unarchive",
+]);
+
+const json = (status: number, body: unknown) => Response.json(body, { status });
+
+function hasValidSecret(request: Request, secret: string): boolean {
+  const header = request.headers.get("authorization") ?? "";
+  const provided =
+    request.headers.get("x-webhook-secret") ??
+    header.replace(/^Bearer\s+/i, "");
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Webhook payloads carry localized fields: { slug: { "en-US": "..." } }
+const firstLocaleValue = (field: unknown): unknown =>
+  field && typeof field === "object"
+    ? Object.values(field as Record<string, unknown>)[0]
+    : field;
+
+/**
+ * The blog post's slug, from the payload when it has fields and otherwise
+ * from the cache or the delivery API, which still has it until eviction.
+ */
+async function postSlug(
+  entryId: string,
+  fields: Record<string, unknown> | undefined
+): Promise<string | undefined> {
+  const slug = firstLocaleValue(fields?.slug);
+  if (typeof slug === "string") return slug;
+  return (await getPostById(entryId))?.fields.slug;
+}
+
+/**
+ * Receives Contentful publish/unpublish/delete webhooks, evicts cached
+ * responses for the affected content type and tells connected MCP sessions
+ * that their resources changed.
+ */
+export async function POST(request: Request) {
+  if (!env.CONTENTFUL_WEBHOOK_SECRET) {
+    logger.warn("Rejected webhook: CONTENTFUL_WEBHOOK_SECRET is not set");
+    return json(503, { error: "Webhook secret is not configured" });
+  }
+  if (!hasValidSecret(request, env.CONTENTFUL_WEBHOOK_SECRET)) {
+    return json(401, { error: "Invalid webhook secret" });
+  }
+
+  const topic = request.headers.get("x-contentful-topic") ?? "";
+  const [, entityType, action] = topic.split(".");
+  if (!HANDLED_ACTIONS.has(action)) {
+    return json(202, { ignored: true, topic });
+  }
+
+  let payload: any;
+  try {
+    payload = await request.json();
+  } catch {
+    return json(400, { error: "Request body must be JSON" });
+  }
+
+  const entryId: string | undefined = payload?.sys?.id;
+  // Assets can be referenced by any content type, so they flush everything
+  const contentType: string | undefined =
+    entityType === "Entry" ? payload?.sys?.contentType?.sys?.id : undefined;
+
+  if (entityType === "Entry" && (!entryId || !contentType)) {
+    return json(400, {
+      error: "Entry payload is missing sys.id or content type",
+    });
+  }
+
+  try {
+    const slug =
+      contentType === "blogPost" && entryId
+        ? await postSlug(entryId, payload.fields)
+        : undefined;
+
+    // Every instance evicts its own cache when the update reaches it
+    await publishContentUpdate({
+      topic,
+      contentType,
+      entryId,
+      uris: affectedUris(contentType, entryId, slug),
+    });
+
+    logger.info("Processed Contentful webhook", {
+      topic,
+      contentType,
+      entryId,
+    });
+    return json(200, { ok: true, topic, contentType, entryId });
+  } catch (error) {
+    logger.error("Failed to process Contentful webhook", error, { topic });
+    return json(500, { error: "Failed to process webhook" });
+  }
+}
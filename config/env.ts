@@ -5,12 +5,71 @@ import { Logger } from "@/app/utils/logger";
 
 const logger = new Logger("Config:Env");
 
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 // Schema for environment variables
-const envSchema = z.object({
-  REDIS_URL: z.string(),
-  CONTENTFUL_SPACE_ID: z.string(),
-  CONTENTFUL_ACCESS_TOKEN: z.string(),
-});
+const envSchema = z
+  .object({
+    // Needed for the SSE transport; the response cache falls back to memory
+    REDIS_URL: z.string().optional(),
+    // "fixtures" serves content from local JSON files instead of Contentful
+    CONTENT_SOURCE: z.enum(["contentful", "fixtures"]).default("contentful"),
+    CONTENT_FIXTURES_DIR: z.string().default("fixtures"),
+    CONTENTFUL_SPACE_ID: z.string().optional(),
+    CONTENTFUL_ACCESS_TOKEN: z.string().optional(),
+    // Preview API access for reading drafts; preview is unavailable without it
+    CONTENTFUL_PREVIEW_ACCESS_TOKEN: z.string().optional(),
+    CONTENTFUL_PREVIEW_HOST: z.string().default("preview.contentful.com"),
+    // Write access for the authoring tools; "local" is an in-memory stand-in
+    MANAGEMENT_API: z.enum(["contentful", "local"]).optional(),
+    CONTENTFUL_MANAGEMENT_TOKEN: z.string().optional(),
+    CONTENTFUL_ENVIRONMENT: z.string().default("master"),
+    // Shared secret Contentful webhooks must send to /webhooks/contentful
+    CONTENTFUL_WEBHOOK_SECRET: z.string().optional(),
+    // JSON list of { name, hash, scopes } for MCP endpoint API keys
+    MCP_API_KEYS: z.string().optional(),
+    // Reject requests without a key instead of treating them as read-only
+    MCP_REQUIRE_AUTH: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform(value => value === "true"),
+    // JSON object of per-tool overrides: { "search-content": { limit, windowSeconds } }
+    MCP_RATE_LIMITS: z.string().optional(),
+    // Bearer token Prometheus must send to /metrics; open when unset
+    METRICS_TOKEN: z.string().optional(),
+    // Logger settings; the logger reads these itself, they're listed here to validate them
+    LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+    LOG_FORMAT: z.enum(["json", "pretty"]).optional(),
+    // JSON object of fallback chains overriding the space's: { "es-MX": ["es"] }
+    LOCALE_FALLBACKS: z.string().optional(),
+    // IANA zone that decides which day a meeting falls on
+    CLUB_TIMEZONE: z
+      .string()
+      .default("America/New_York")
+      .refine(isTimeZone, "CLUB_TIMEZONE must be an IANA time zone"),
+  })
+  .superRefine((env, ctx) => {
+    if (env.CONTENT_SOURCE !== "contentful") return;
+    for (const key of [
+      "CONTENTFUL_SPACE_ID",
+      "CONTENTFUL_ACCESS_TOKEN",
+    ] as const) {
+      if (!env[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} is required when CONTENT_SOURCE is "contentful"`,
+        });
+      }
+    }
+  });
 
 // Function to validate environment variables
 const validateEnv = () => {
@@ -18,8 +77,25 @@ const validateEnv = () => {
     logger.info("Validating environment variables");
     const env = {
       REDIS_URL: process.env.REDIS_URL,
+      CONTENT_SOURCE: process.env.CONTENT_SOURCE,
+      CONTENT_FIXTURES_DIR: process.env.CONTENT_FIXTURES_DIR,
       CONTENTFUL_SPACE_ID: process.env.CONTENTFUL_SPACE_ID,
       CONTENTFUL_ACCESS_TOKEN: process.env.CONTENTFUL_ACCESS_TOKEN,
+      CONTENTFUL_PREVIEW_ACCESS_TOKEN:
+        process.env.CONTENTFUL_PREVIEW_ACCESS_TOKEN,
+      CONTENTFUL_PREVIEW_HOST: process.env.CONTENTFUL_PREVIEW_HOST,
+      MANAGEMENT_API: process.env.MANAGEMENT_API,
+      CONTENTFUL_MANAGEMENT_TOKEN: process.env.CONTENTFUL_MANAGEMENT_TOKEN,
+      CONTENTFUL_ENVIRONMENT: process.env.CONTENTFUL_ENVIRONMENT,
+      CONTENTFUL_WEBHOOK_SECRET: process.env.CONTENTFUL_WEBHOOK_SECRET,
+      MCP_API_KEYS: process.env.MCP_API_KEYS,
+      MCP_REQUIRE_AUTH: process.env.MCP_REQUIRE_AUTH,
+      MCP_RATE_LIMITS: process.env.MCP_RATE_LIMITS,
+      METRICS_TOKEN: process.env.METRICS_TOKEN,
+      LOG_LEVEL: process.env.LOG_LEVEL,
+      LOG_FORMAT: process.env.LOG_FORMAT,
+      LOCALE_FALLBACKS: process.env.LOCALE_FALLBACKS,
+      CLUB_TIMEZONE: process.env.CLUB_TIMEZONE,
     };
     const parsed = envSchema.parse(env);
     logger.info("Environment variables validated successfully");
@@ -0,0 +1,25 @@
+import { createHash, randomBytes } from "crypto";
+
+const SCOPES = ["read:public", "read:drafts", "write:content"];
+
+const [name, ...scopes] = process.argv.slice(2);
+const unknown = scopes.filter(scope => !SCOPES.includes(scope));
+
+if (!name || !scopes.length || unknown.length) {
+  console.error(
+    `Usage: node scripts/create-api-key.mjs <name> <scope>...\nScopes: ${SCOPES.join(", ")}`
+  );
+  process.exit(1);
+}
+
+// Only the hash is stored; the key itself is shown once here
+const key = `sju_${randomBytes(32).toString("base64url")}`;
+const hash = createHash("sha256").update(key).digest("hex");
+const record = { name, scopes };
+
+console.log(`API key (give this to ${name}, it is not stored anywhere):`);
+console.log(`  ${key}\n`);
+console.log("Add to MCP_API_KEYS:");
+console.log(`  ${JSON.stringify({ ...record, hash })}\n`);
+console.log("Or store it in Redis:");
+console.log(`  HSET mcp:api-keys ${hash} '${JSON.stringify(record)}'`);
@@ -0,0 +1,12 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    // Serve content from the JSON fixtures rather than Contentful
+    env: { CONTENT_SOURCE: "fixtures", LOG_LEVEL: "error" },
+  },
+});